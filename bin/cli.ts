@@ -1,18 +1,33 @@
 #!/usr/bin/env node
 import yargs from 'yargs'
 import { getOperationalCommand } from './utils/getOperationalCommand'
+import { getInitCommand } from './utils/getInitCommand'
+import { getValidateCommand } from './utils/getValidateCommand'
+import { getSynthCommand } from './utils/getSynthCommand'
+import { getRunCommand } from './utils/getRunCommand'
+import { getGraphCommand } from './utils/getGraphCommand'
 import { errorHandler } from './utils/errorHandler'
 
 const usage = `Example usage:
+$0 init [options]
 $0 deploy <environment> [options]
 $0 destroy <environment> [options]
-$0 preview <environment> [options]`
+$0 preview <environment> [options]
+$0 validate [environment] [options]
+$0 synth [environment] [options]
+$0 run <environment> <service> <task> [options]
+$0 graph <environment> [options]`
 
 export const cli = yargs
   .scriptName('stackname')
+  .command(getInitCommand())
   .command(getOperationalCommand('deploy'))
   .command(getOperationalCommand('destroy'))
   .command(getOperationalCommand('preview'))
+  .command(getValidateCommand())
+  .command(getSynthCommand())
+  .command(getRunCommand())
+  .command(getGraphCommand())
   .usage(usage)
   .demandCommand(1, 'You need to provide a command to run, see usage by adding --help')
   .showHelpOnFail(false)
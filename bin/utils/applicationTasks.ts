@@ -0,0 +1,291 @@
+import { setTimeout as sleep } from 'node:timers/promises'
+import {
+  ECSClient,
+  DescribeServicesCommand,
+  DescribeTaskDefinitionCommand,
+  DescribeTasksCommand,
+  RunTaskCommand,
+  StopTaskCommand,
+  UpdateServiceCommand,
+} from '@aws-sdk/client-ecs'
+import { CodeDeployClient, CreateDeploymentCommand } from '@aws-sdk/client-codedeploy'
+import {
+  CloudWatchLogsClient,
+  GetLogEventsCommand,
+  ResourceNotFoundException,
+} from '@aws-sdk/client-cloudwatch-logs'
+import { SERVICE_TYPE } from '@src/constants'
+import {
+  getDeploymentGroupName,
+  getTaskDefinitionFamily,
+  type AwsApplicationAttributes,
+} from '@aws/services/application'
+import type { AwsClusterAttributes } from '@aws/services/applicationCluster'
+import type { ServiceConfiguration } from '@src/services/registry'
+
+// How often to poll the task's status and logs, in milliseconds
+const POLLING_INTERVAL = 5000
+
+// How long to wait for a task to stop by default, in milliseconds
+const TASK_TIMEOUT = 60 * 60 * 1000
+
+export type ApplicationTaskOptions = {
+  region: string
+  cluster: string
+  service: string
+  command: string[]
+  taskDefinition?: string
+  timeout?: number
+  onLog?: (message: string) => void
+}
+
+/**
+ * @param {ServiceConfiguration[]} services the services of the environment
+ * @param {AwsApplicationAttributes} application the application to get the cluster for
+ * @returns {String} the name of the ECS cluster the application runs on
+ */
+export const getApplicationCluster = (
+  services: ServiceConfiguration[],
+  application: AwsApplicationAttributes,
+): string => {
+  const cluster = services.find(
+    (srv) =>
+      srv.type === SERVICE_TYPE.CLUSTER &&
+      srv.provider === application.provider &&
+      srv.region === application.region,
+  ) as AwsClusterAttributes | undefined
+
+  if (!cluster) {
+    throw new Error(`There is no cluster for the "${application.name}" application`)
+  }
+
+  return cluster.clusterName
+}
+
+/**
+ * @param {String} region the region the task definition is registered in
+ * @param {String} family the task definition family
+ * @returns {Promise<String>} the ARN of the latest revision of the task definition
+ */
+export const getLatestTaskDefinition = async (region: string, family: string): Promise<string> => {
+  const ecs = new ECSClient({ region })
+  const { taskDefinition } = await ecs.send(
+    new DescribeTaskDefinitionCommand({ taskDefinition: family }),
+  )
+
+  if (!taskDefinition?.taskDefinitionArn) {
+    throw new Error(`There is no task definition registered for "${family}"`)
+  }
+
+  return taskDefinition.taskDefinitionArn
+}
+
+/**
+ * Runs a one-off Fargate task for an application service and streams its logs until it stops.
+ * The task is stopped when it runs for longer than the timeout
+ *
+ * @param {ApplicationTaskOptions} options the task options
+ * @returns {Promise<Number>} the exit code of the task's container
+ * @throws {Error} if the task does not stop in time
+ */
+export const runApplicationTask = async ({
+  region,
+  cluster,
+  service,
+  command,
+  taskDefinition,
+  timeout = TASK_TIMEOUT,
+  onLog = console.log, // eslint-disable-line no-console
+}: ApplicationTaskOptions): Promise<number> => {
+  const ecs = new ECSClient({ region })
+  const logs = new CloudWatchLogsClient({ region })
+
+  // The task runs in the same networking setup as the service
+  const { services: [deployed] = [] } = await ecs.send(
+    new DescribeServicesCommand({ cluster, services: [service] }),
+  )
+
+  if (!deployed?.taskDefinition || deployed.status !== 'ACTIVE') {
+    throw new Error(`The service "${service}" is not deployed on the "${cluster}" cluster`)
+  }
+
+  const taskDefinitionArn = taskDefinition || deployed.taskDefinition
+  const { taskDefinition: definition } = await ecs.send(
+    new DescribeTaskDefinitionCommand({ taskDefinition: taskDefinitionArn }),
+  )
+
+  const container = definition?.containerDefinitions?.find(({ name }) => name === service)
+  const logOptions = container?.logConfiguration?.options || {}
+
+  const { tasks: [task] = [], failures = [] } = await ecs.send(
+    new RunTaskCommand({
+      cluster,
+      taskDefinition: taskDefinitionArn,
+      launchType: 'FARGATE',
+      networkConfiguration: deployed.networkConfiguration,
+      overrides: { containerOverrides: [{ name: service, command }] },
+      startedBy: 'stackmate',
+    }),
+  )
+
+  if (!task?.taskArn) {
+    const reasons = failures.map(({ reason }) => reason).join(', ')
+    throw new Error(`The task for the "${service}" service could not start: ${reasons}`)
+  }
+
+  const taskId = task.taskArn.split('/').pop()
+  const logStreamName = `${logOptions['awslogs-stream-prefix']}/${service}/${taskId}`
+  let nextToken: string | undefined
+
+  const printLogs = async () => {
+    try {
+      const { events = [], nextForwardToken } = await logs.send(
+        new GetLogEventsCommand({
+          logGroupName: logOptions['awslogs-group'],
+          logStreamName,
+          startFromHead: true,
+          nextToken,
+        }),
+      )
+
+      events.forEach(({ message }) => message && onLog(message))
+      nextToken = nextForwardToken
+    } catch (err) {
+      // The log stream is created once the container starts
+      if (!(err instanceof ResourceNotFoundException)) {
+        throw err
+      }
+    }
+  }
+
+  const deadline = Date.now() + timeout
+
+  while (Date.now() < deadline) {
+    await sleep(POLLING_INTERVAL)
+    await printLogs()
+
+    const { tasks: [current] = [] } = await ecs.send(
+      new DescribeTasksCommand({ cluster, tasks: [task.taskArn] }),
+    )
+
+    if (current?.lastStatus !== 'STOPPED') {
+      continue
+    }
+
+    await printLogs()
+
+    const exitCode = current.containers?.find(({ name }) => name === service)?.exitCode
+    if (exitCode === undefined) {
+      throw new Error(`The task for the "${service}" service stopped: ${current.stoppedReason}`)
+    }
+
+    return exitCode
+  }
+
+  await ecs.send(new StopTaskCommand({ cluster, task: task.taskArn, reason: 'The task timed out' }))
+
+  throw new Error(
+    `The task for the "${service}" service did not stop within ${timeout / 1000} seconds`,
+  )
+}
+
+/**
+ * Updates an application service to a task definition, either directly or,
+ * for blue/green deployments, by starting a CodeDeploy deployment
+ *
+ * @param {AwsApplicationAttributes} application the application to update
+ * @param {String} cluster the cluster the application runs on
+ * @param {String} taskDefinition the ARN of the task definition to update to
+ * @param {String} environment the environment the application is deployed to
+ * @param {Function} onLog the function to print the progress with
+ */
+const updateApplication = async (
+  { name, region, port, deployment }: AwsApplicationAttributes,
+  cluster: string,
+  taskDefinition: string,
+  environment: string,
+  onLog: (message: string) => void,
+) => {
+  if (deployment?.strategy !== 'blueGreen') {
+    const ecs = new ECSClient({ region })
+    await ecs.send(new UpdateServiceCommand({ cluster, service: name, taskDefinition }))
+    return
+  }
+
+  const appSpec = {
+    version: 0.0,
+    Resources: [
+      {
+        TargetService: {
+          Type: 'AWS::ECS::Service',
+          Properties: {
+            TaskDefinition: taskDefinition,
+            LoadBalancerInfo: { ContainerName: name, ContainerPort: port },
+          },
+        },
+      },
+    ],
+  }
+
+  const codeDeploy = new CodeDeployClient({ region })
+  const deploymentName = getDeploymentGroupName(name, environment)
+  const { deploymentId } = await codeDeploy.send(
+    new CreateDeploymentCommand({
+      applicationName: deploymentName,
+      deploymentGroupName: deploymentName,
+      revision: {
+        revisionType: 'AppSpecContent',
+        appSpecContent: { content: JSON.stringify(appSpec) },
+      },
+    }),
+  )
+
+  onLog(`The blue/green deployment ${deploymentId} of the "${name}" service has started`)
+}
+
+/**
+ * Rolls out the applications that terraform doesn't update the task definition of,
+ * which are the ones with a deployment task and the ones deployed using blue/green.
+ * The deployment task runs first, and the service is only updated when the task succeeds
+ *
+ * @param {ServiceConfiguration[]} services the services of the environment
+ * @param {String} environment the environment the services are deployed to
+ * @param {Function} onLog the function to print the tasks' logs with
+ */
+export const rollOutApplications = async (
+  services: ServiceConfiguration[],
+  environment: string,
+  onLog: (message: string) => void = console.log, // eslint-disable-line no-console
+) => {
+  const applications = (
+    services.filter((srv) => srv.type === SERVICE_TYPE.APP) as AwsApplicationAttributes[]
+  ).filter((app) => app.deploymentTask || app.deployment?.strategy === 'blueGreen')
+
+  for (const application of applications) {
+    const { name, region, tasks = {}, deploymentTask } = application
+    const cluster = getApplicationCluster(services, application)
+    const taskDefinition = await getLatestTaskDefinition(
+      region,
+      getTaskDefinitionFamily(name, environment),
+    )
+
+    if (deploymentTask) {
+      const exitCode = await runApplicationTask({
+        region,
+        cluster,
+        service: name,
+        command: tasks[deploymentTask],
+        taskDefinition,
+        onLog,
+      })
+
+      if (exitCode !== 0) {
+        throw new Error(
+          `The "${deploymentTask}" task of the "${name}" service exited with code ${exitCode}, the service was not updated`,
+        )
+      }
+    }
+
+    await updateApplication(application, cluster, taskDefinition, environment, onLog)
+  }
+}
@@ -0,0 +1,53 @@
+import { GRAPH_FORMAT, formatGraph, type GraphFormatChoice } from '@src/operation'
+import type { CommandModule, ArgumentsCamelCase } from 'yargs'
+import type { EnvironmentChoice } from '@src/project'
+import { getOperation } from './getOperation'
+import { readConfiguration } from './readConfiguration'
+import { parseVariables } from './parseVariables'
+import { configurationOption, variableOption } from './options'
+
+export type GraphCommandOptions = ArgumentsCamelCase<{
+  configuration: string
+  environment: EnvironmentChoice
+  format: GraphFormatChoice
+  var: string[]
+}>
+
+/**
+ * Returns the command that prints the graph of the services and their associations
+ *
+ * @returns {CommandModule} the graph command
+ */
+export const getGraphCommand = (): CommandModule => ({
+  command: 'graph <environment>',
+  describe: 'Prints the graph of the services and their associations for an environment',
+  builder: (cmd) => {
+    cmd.positional('environment', {
+      type: 'string',
+      describe: 'The environment to print the graph for',
+    })
+
+    cmd.option('configuration', configurationOption)
+    cmd.option('var', variableOption)
+
+    cmd.option('format', {
+      alias: 'f',
+      description: 'the format to print the graph in',
+      choices: Object.values(GRAPH_FORMAT),
+      default: GRAPH_FORMAT.MERMAID,
+    })
+
+    return cmd
+  },
+  handler: async (options: GraphCommandOptions) => {
+    const { configuration, environment, format, var: vars } = options
+    const operation = getOperation(
+      readConfiguration(configuration),
+      environment,
+      undefined,
+      parseVariables(vars),
+    )
+
+    console.log(formatGraph(operation.toGraph(), format)) // eslint-disable-line no-console
+  },
+})
@@ -0,0 +1,249 @@
+import fs from 'node:fs'
+import path from 'node:path'
+import { homedir } from 'node:os'
+import { fromPairs, isEmpty, without } from 'lodash'
+import { PROVIDER } from '@src/constants'
+import { writeYamlFile } from '@src/lib/file'
+import { Registry } from '@src/services/registry'
+import { DEFAULT_PROVIDER, DEFAULT_REGION } from '@src/project/constants'
+import {
+  getProjectScaffold,
+  getScaffoldServiceAttributes,
+  getScaffoldServiceTypes,
+} from '@src/project/utils/getProjectScaffold'
+import type { CommandModule, ArgumentsCamelCase } from 'yargs'
+import type { ProviderChoice, ServiceTypeChoice } from '@src/services/types'
+import type {
+  ProjectScaffoldOptions,
+  ProjectScaffoldService,
+} from '@src/project/utils/getProjectScaffold'
+import { configurationOption } from './options'
+import { getPrompt } from './prompt'
+
+export type InitCommandOptions = ArgumentsCamelCase<{
+  configuration: string
+  interactive: boolean
+  force: boolean
+  name?: string
+  provider: ProviderChoice
+  region?: string
+  stateBucket?: string
+  stateLockTable: string
+  stateDirectory?: string
+  service: ServiceTypeChoice[]
+  attribute: string[]
+}>
+
+const DEFAULT_LOCK_TABLE = 'stackmate-terraform-state-lock'
+
+/**
+ * Parses the attributes given in the form of <service type>.<attribute>=<value>
+ *
+ * @param {String[]} attributes the attributes to parse
+ * @param {ServiceTypeChoice} type the service type to get the attributes for
+ * @returns {Object} the attributes for the service type
+ */
+const getServiceAttributes = (attributes: string[], type: ServiceTypeChoice) =>
+  fromPairs(
+    attributes
+      .map((attr) => attr.match(/^([^.]+)\.([^=]+)=(.*)$/))
+      .filter((match): match is RegExpMatchArray => Boolean(match) && match?.[1] === type)
+      .map(([, , key, value]) => [key, value]),
+  )
+
+/**
+ * Collects the scaffolding options from the command line flags
+ *
+ * @param {InitCommandOptions} options the command line options
+ * @returns {ProjectScaffoldOptions} the scaffolding options
+ */
+const getFlagAnswers = (options: InitCommandOptions): ProjectScaffoldOptions => {
+  const { name, provider, region, stateBucket, stateLockTable, stateDirectory } = options
+  const { service = [], attribute = [] } = options
+
+  return {
+    name,
+    provider,
+    region,
+    state: stateDirectory
+      ? { provider: PROVIDER.LOCAL, directory: stateDirectory }
+      : { provider, bucket: stateBucket, lockTable: stateLockTable },
+    services: service.map((type) => ({ type, attributes: getServiceAttributes(attribute, type) })),
+  }
+}
+
+/**
+ * Asks the user for the scaffolding options, using the command line flags as defaults
+ *
+ * @param {InitCommandOptions} options the command line options
+ * @returns {Promise<ProjectScaffoldOptions>} the scaffolding options
+ */
+const getInteractiveAnswers = async (
+  options: InitCommandOptions,
+): Promise<ProjectScaffoldOptions> => {
+  const defaults = getFlagAnswers(options)
+  const prompt = getPrompt()
+
+  try {
+    const [name] = await prompt.ask('Project name', {
+      defaultValue: defaults.name || path.basename(process.cwd()),
+    })
+
+    const [provider] = (await prompt.ask('Cloud provider', {
+      choices: without(Registry.providers(), PROVIDER.LOCAL),
+      defaultValue: defaults.provider,
+    })) as ProviderChoice[]
+
+    const [region] = await prompt.ask('Region', {
+      choices: Registry.regions(provider),
+      defaultValue: defaults.region || DEFAULT_REGION[provider],
+    })
+
+    const [stateProvider] = (await prompt.ask('Where should the Terraform state be stored', {
+      choices: [provider, PROVIDER.LOCAL],
+      defaultValue: defaults.state.provider,
+    })) as ProviderChoice[]
+
+    const state: ProjectScaffoldOptions['state'] = { provider: stateProvider }
+
+    if (stateProvider === PROVIDER.LOCAL) {
+      const [directory] = await prompt.ask('State directory', {
+        defaultValue:
+          defaults.state.directory ||
+          path.join(homedir(), 'stackmate-states', path.basename(process.cwd())),
+      })
+
+      Object.assign(state, { directory })
+    } else {
+      const [bucket] = await prompt.ask('State bucket name', {
+        defaultValue: defaults.state.bucket,
+      })
+
+      const [lockTable] = await prompt.ask('State lock table name', {
+        defaultValue: defaults.state.lockTable || DEFAULT_LOCK_TABLE,
+      })
+
+      Object.assign(state, { bucket, lockTable })
+    }
+
+    const types = (await prompt.ask('Services to deploy, separated by commas', {
+      choices: getScaffoldServiceTypes(provider),
+      defaultValue: defaults.services.map(({ type }) => type).join(','),
+      multiple: true,
+    })) as ServiceTypeChoice[]
+
+    const services: ProjectScaffoldService[] = []
+
+    for (const type of types) {
+      const attributes: Record<string, string> = {}
+
+      for (const attr of getScaffoldServiceAttributes(provider, type)) {
+        const [value] = await prompt.ask(`The "${attr}" attribute for the ${type} service`, {
+          defaultValue: getServiceAttributes(options.attribute || [], type)[attr],
+        })
+
+        attributes[attr] = value
+      }
+
+      services.push({ type, attributes })
+    }
+
+    return { name, provider, region, state, services }
+  } finally {
+    prompt.close()
+  }
+}
+
+/**
+ * Returns the command that scaffolds a new project configuration
+ *
+ * @returns {CommandModule} the init command
+ */
+export const getInitCommand = (): CommandModule => ({
+  command: 'init',
+  describe: 'Creates the configuration file for a new project',
+  builder: (cmd) => {
+    cmd.option('configuration', {
+      ...configurationOption,
+      description: 'the configuration file to create',
+    })
+
+    cmd.option('interactive', {
+      description: 'whether to ask for the project’s setup, use --no-interactive for flags only',
+      type: 'boolean',
+      default: true,
+    })
+
+    cmd.option('force', {
+      description: 'whether to overwrite an existing configuration file',
+      type: 'boolean',
+      default: false,
+    })
+
+    cmd.option('name', {
+      description: 'the project’s name',
+      type: 'string',
+    })
+
+    cmd.option('provider', {
+      description: 'the cloud provider to use',
+      type: 'string',
+      default: DEFAULT_PROVIDER,
+    })
+
+    cmd.option('region', {
+      description: 'the region to deploy the services in',
+      type: 'string',
+    })
+
+    cmd.option('state-bucket', {
+      description: 'the bucket to store the Terraform state in',
+      type: 'string',
+    })
+
+    cmd.option('state-lock-table', {
+      description: 'the table to use for locking the Terraform state',
+      type: 'string',
+      default: DEFAULT_LOCK_TABLE,
+    })
+
+    cmd.option('state-directory', {
+      description: 'the local directory to store the Terraform state in, instead of a bucket',
+      type: 'string',
+    })
+
+    cmd.option('service', {
+      alias: 's',
+      description: 'the type of a service to include in the project, can be used multiple times',
+      type: 'array',
+      string: true,
+      default: [],
+    })
+
+    cmd.option('attribute', {
+      alias: 'a',
+      description: 'a required service attribute in the form of <service type>.<attribute>=<value>',
+      type: 'array',
+      string: true,
+      default: [],
+    })
+
+    return cmd
+  },
+  handler: async (options: InitCommandOptions) => {
+    const { configuration, interactive, force } = options
+
+    if (fs.existsSync(configuration) && !force) {
+      throw new Error(`File ${configuration} already exists, use --force to overwrite it`)
+    }
+
+    const answers = interactive ? await getInteractiveAnswers(options) : getFlagAnswers(options)
+
+    if (isEmpty(answers.services)) {
+      throw new Error('Please select at least one service to deploy')
+    }
+
+    writeYamlFile(getProjectScaffold(answers), configuration)
+    console.log(`✅ The project configuration was written to ${configuration}`) // eslint-disable-line no-console
+  },
+})
@@ -0,0 +1,24 @@
+import { Operation } from '@src/operation'
+import { ENVIRONMENT } from '@src/project/constants'
+import { getProjectServices } from '@src/project/utils/getProjectServices'
+import type { InterpolationVariables } from '@src/project/utils/interpolateConfiguration'
+import type { EnvironmentChoice, ProjectConfiguration } from '@src/project'
+
+/**
+ * Validates the project configuration and returns the operation for the environment given
+ *
+ * @param {ProjectConfiguration} configuration the project's configuration
+ * @param {EnvironmentChoice} environment the environment to get the operation for
+ * @param {String} workingDirectory the working directory to use
+ * @param {InterpolationVariables} variables the variables to interpolate in the configuration
+ * @returns {Operation} the operation
+ */
+export const getOperation = (
+  configuration: ProjectConfiguration,
+  environment: EnvironmentChoice = ENVIRONMENT.PRODUCTION,
+  workingDirectory: string = process.cwd(),
+  variables: InterpolationVariables = {},
+): Operation => {
+  const services = getProjectServices(configuration, environment, variables)
+  return new Operation(services, environment, workingDirectory)
+}
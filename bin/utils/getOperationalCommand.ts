@@ -1,11 +1,14 @@
 import path from 'node:path'
-import { ENVIRONMENT } from '@src/project/constants'
-import { readJsonFile, readYamlFile } from '@src/lib/file'
+import { getProjectServices } from '@src/project/utils/getProjectServices'
 import type { CommandModule, ArgumentsCamelCase } from 'yargs'
 import type { DiffOptions, MutationOptions } from '@cdktf/cli-core/src/lib/cdktf-project'
-import type { EnvironmentChoice, ProjectConfiguration } from '@src/project'
+import type { EnvironmentChoice } from '@src/project'
 import { getProject } from './getProject'
 import { handleTerraformOutput } from './handleTerraformOutput'
+import { readConfiguration } from './readConfiguration'
+import { parseVariables } from './parseVariables'
+import { configurationOption, directoryOption, variableOption } from './options'
+import { rollOutApplications } from './applicationTasks'
 
 export type CliCommandChoice = 'deploy' | 'destroy' | 'preview'
 
@@ -14,6 +17,7 @@ export type CliOptions = ArgumentsCamelCase<{
   directory: string
   environment: EnvironmentChoice
   colors: boolean
+  var: string[]
 }>
 
 export const getOperationalCommand = (
@@ -23,27 +27,16 @@ export const getOperationalCommand = (
     migrateState: true,
   },
 ): CommandModule => ({
-  command,
+  command: `${command} <environment>`,
   builder: (cmd) => {
     cmd.positional('environment', {
       type: 'string',
-      describe: `The environment to ${command}`,
-      choices: Object.values(ENVIRONMENT),
+      describe: `The environment to ${command}, as declared in the configuration file`,
     })
 
-    cmd.option('configuration', {
-      alias: 'c',
-      description: 'the project’s configuration file',
-      type: 'string',
-      default: '.stackmate/config.yml',
-    })
-
-    cmd.option('directory', {
-      alias: 'd',
-      description: 'the working directory to use',
-      type: 'string',
-      default: '',
-    })
+    cmd.option('configuration', configurationOption)
+    cmd.option('directory', directoryOption)
+    cmd.option('var', variableOption)
 
     cmd.option('colors', {
       description: 'whether to use colors for the output',
@@ -54,21 +47,18 @@ export const getOperationalCommand = (
     return cmd
   },
   handler: async (options: CliOptions) => {
-    const { configuration, directory, environment, colors } = options
+    const { configuration, directory, environment, colors, var: variables } = options
     const operationOptions: DiffOptions | MutationOptions = {
       ...operationDefaults,
       noColor: !Boolean(colors),
     }
 
-    const contents =
-      configuration.endsWith('.yml') || configuration.endsWith('.yaml')
-        ? readYamlFile(configuration)
-        : readJsonFile(configuration)
-
-    const project = getProject(contents as ProjectConfiguration, environment, {
+    const contents = readConfiguration(configuration)
+    const project = getProject(contents, environment, {
       workingDirectory: directory || path.dirname(configuration),
       onLog: handleTerraformOutput,
       onUpdate: handleTerraformOutput,
+      variables: parseVariables(variables),
     })
 
     const quitTerraform = () => project.hardAbort()
@@ -80,6 +70,11 @@ export const getOperationalCommand = (
     switch (command) {
       case 'deploy':
         await project.deploy(operationOptions)
+        // Services with a deployment task or a blue/green deployment are rolled out separately
+        await rollOutApplications(
+          getProjectServices(contents, environment, parseVariables(variables)),
+          environment,
+        )
         break
       case 'destroy':
         await project.destroy(operationOptions)
@@ -1,19 +1,27 @@
-import { Operation } from '@src/operation'
 import { Project } from '@src/project'
 import { ENVIRONMENT } from '@src/project/constants'
-import { getProjectServices } from '@src/project/utils/getProjectServices'
 import type { EnvironmentChoice, ProjectConfiguration } from '@src/project'
+import type { InterpolationVariables } from '@src/project/utils/interpolateConfiguration'
 import type { CdktfProjectOptions } from '@cdktf/cli-core/src/lib/cdktf-project'
+import { getOperation } from './getOperation'
 
-type GetProjectOpts = Partial<Pick<CdktfProjectOptions, 'workingDirectory' | 'onUpdate' | 'onLog'>>
+type GetProjectOpts = Partial<
+  Pick<CdktfProjectOptions, 'workingDirectory' | 'onUpdate' | 'onLog'>
+> & {
+  variables?: InterpolationVariables
+}
 
 export const getProject = (
   configuration: ProjectConfiguration,
   environment: EnvironmentChoice = ENVIRONMENT.PRODUCTION,
-  { workingDirectory, onUpdate, onLog }: GetProjectOpts = {},
+  { workingDirectory, onUpdate, onLog, variables }: GetProjectOpts = {},
 ): Project => {
-  const services = getProjectServices(configuration, environment)
-  const operation = new Operation(services, environment, workingDirectory || process.cwd())
+  const operation = getOperation(
+    configuration,
+    environment,
+    workingDirectory || process.cwd(),
+    variables,
+  )
 
   return new Project(operation.process(), {
     onUpdate: onUpdate || (() => {}),
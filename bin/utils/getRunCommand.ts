@@ -0,0 +1,80 @@
+import { has } from 'lodash'
+import { SERVICE_TYPE } from '@src/constants'
+import { getProjectServices } from '@src/project/utils/getProjectServices'
+import type { CommandModule, ArgumentsCamelCase } from 'yargs'
+import type { EnvironmentChoice } from '@src/project'
+import type { AwsApplicationAttributes } from '@aws/services/application'
+import { readConfiguration } from './readConfiguration'
+import { parseVariables } from './parseVariables'
+import { configurationOption, variableOption } from './options'
+import { getApplicationCluster, runApplicationTask } from './applicationTasks'
+
+export type RunCommandOptions = ArgumentsCamelCase<{
+  configuration: string
+  environment: EnvironmentChoice
+  service: string
+  task: string
+  var: string[]
+}>
+
+/**
+ * Returns the command that runs one of an application's tasks as a one-off Fargate task
+ *
+ * @returns {CommandModule} the run command
+ */
+export const getRunCommand = (): CommandModule => ({
+  command: 'run <environment> <service> <task>',
+  describe: 'Runs a task of an application service and exits with its exit code',
+  builder: (cmd) => {
+    cmd.positional('environment', {
+      type: 'string',
+      describe: 'The environment the service is deployed to',
+    })
+
+    cmd.positional('service', {
+      type: 'string',
+      describe: 'The application service to run the task for',
+    })
+
+    cmd.positional('task', {
+      type: 'string',
+      describe: 'The name of the task to run, as declared in the service’s tasks',
+    })
+
+    cmd.option('configuration', configurationOption)
+    cmd.option('var', variableOption)
+
+    return cmd
+  },
+  handler: async (options: RunCommandOptions) => {
+    const { configuration, environment, service, task, var: vars } = options
+    const services = getProjectServices(
+      readConfiguration(configuration),
+      environment,
+      parseVariables(vars),
+    )
+
+    const application = services.find(
+      (srv) => srv.name === service && srv.type === SERVICE_TYPE.APP,
+    ) as AwsApplicationAttributes | undefined
+
+    if (!application) {
+      throw new Error(
+        `There is no application named "${service}" in the "${environment}" environment`,
+      )
+    }
+
+    if (!has(application.tasks, task)) {
+      throw new Error(`The "${service}" application has no task named "${task}"`)
+    }
+
+    const exitCode = await runApplicationTask({
+      region: application.region,
+      cluster: getApplicationCluster(services, application),
+      service,
+      command: (application.tasks || {})[task],
+    })
+
+    process.exit(exitCode)
+  },
+})
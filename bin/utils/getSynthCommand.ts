@@ -0,0 +1,82 @@
+import fs from 'node:fs'
+import path from 'node:path'
+import { writeJsonFile } from '@src/lib/file'
+import type { CommandModule, ArgumentsCamelCase } from 'yargs'
+import type { EnvironmentChoice } from '@src/project'
+import { getOperation } from './getOperation'
+import { readConfiguration } from './readConfiguration'
+import { parseVariables } from './parseVariables'
+import { configurationOption, variableOption } from './options'
+
+export type SynthCommandOptions = ArgumentsCamelCase<{
+  configuration: string
+  environment?: EnvironmentChoice
+  var: string[]
+  output: string
+  stdout: boolean
+}>
+
+/**
+ * Returns the command that synthesizes the Terraform configuration,
+ * without running Terraform
+ *
+ * @returns {CommandModule} the synth command
+ */
+export const getSynthCommand = (): CommandModule => ({
+  command: 'synth [environment]',
+  describe: 'Writes the Terraform configuration for the project',
+  builder: (cmd) => {
+    cmd.positional('environment', {
+      type: 'string',
+      describe: 'The environment to synthesize, all environments are synthesized when omitted',
+    })
+
+    cmd.option('configuration', configurationOption)
+    cmd.option('var', variableOption)
+
+    cmd.option('output', {
+      alias: 'o',
+      description: 'the directory to write the Terraform configuration to',
+      type: 'string',
+      default: '',
+    })
+
+    cmd.option('stdout', {
+      description: 'print the Terraform configuration instead of writing it to a file',
+      type: 'boolean',
+      default: false,
+    })
+
+    return cmd
+  },
+  handler: async (options: SynthCommandOptions) => {
+    const { configuration, environment, output, stdout, var: vars } = options
+    const variables = parseVariables(vars)
+    const contents = readConfiguration(configuration)
+    const environments = environment
+      ? [environment]
+      : (Object.keys(contents.environments || {}) as EnvironmentChoice[])
+
+    if (stdout && environments.length !== 1) {
+      throw new Error('Please specify the environment to print the Terraform configuration for')
+    }
+
+    // The CDKTF app does not create the parent directories of its output directory
+    const outdir = output || path.dirname(configuration)
+    fs.mkdirSync(outdir, { recursive: true })
+
+    environments.forEach((env) => {
+      const operation = getOperation(contents, env, outdir, variables)
+      const { content, synthesizedStackPath } = operation.process()
+
+      if (stdout) {
+        console.log(content) // eslint-disable-line no-console
+        return
+      }
+
+      writeJsonFile(content, synthesizedStackPath)
+      // eslint-disable-next-line no-console
+      console.log(`✅ The "${env}" environment was synthesized to ${synthesizedStackPath}`)
+    })
+  },
+})
@@ -0,0 +1,66 @@
+import path from 'node:path'
+import { ValidationError } from '@lib/errors'
+import type { CommandModule, ArgumentsCamelCase } from 'yargs'
+import type { EnvironmentChoice } from '@src/project'
+import { getOperation } from './getOperation'
+import { readConfiguration } from './readConfiguration'
+import { parseVariables } from './parseVariables'
+import { configurationOption, variableOption } from './options'
+import { print, printValidationError } from './print'
+
+export type ValidateCommandOptions = ArgumentsCamelCase<{
+  configuration: string
+  environment?: EnvironmentChoice
+  var: string[]
+}>
+
+/**
+ * Returns the command that validates the project configuration,
+ * without synthesizing the stack or running Terraform
+ *
+ * @returns {CommandModule} the validate command
+ */
+export const getValidateCommand = (): CommandModule => ({
+  command: 'validate [environment]',
+  describe: 'Validates the project configuration',
+  builder: (cmd) => {
+    cmd.positional('environment', {
+      type: 'string',
+      describe: 'The environment to validate, all environments are validated when omitted',
+    })
+
+    cmd.option('configuration', configurationOption)
+    cmd.option('var', variableOption)
+
+    return cmd
+  },
+  handler: async (options: ValidateCommandOptions) => {
+    const { configuration, environment, var: vars } = options
+    const variables = parseVariables(vars)
+    const contents = readConfiguration(configuration)
+    const environments = environment
+      ? [environment]
+      : (Object.keys(contents.environments || {}) as EnvironmentChoice[])
+
+    let isValid = true
+
+    environments.forEach((env) => {
+      try {
+        getOperation(contents, env, path.dirname(configuration), variables)
+        console.log(`✅ The "${env}" environment is valid`) // eslint-disable-line no-console
+      } catch (err) {
+        if (!(err instanceof ValidationError)) {
+          throw err
+        }
+
+        isValid = false
+        print(`❌ The "${env}" environment is invalid`)
+        printValidationError(err)
+      }
+    })
+
+    if (!isValid) {
+      process.exit(1)
+    }
+  },
+})
@@ -0,0 +1,22 @@
+import type { Options } from 'yargs'
+
+export const configurationOption: Options = {
+  alias: 'c',
+  description: 'the project’s configuration file',
+  type: 'string',
+  default: '.stackmate/config.yml',
+}
+
+export const directoryOption: Options = {
+  alias: 'd',
+  description: 'the working directory to use',
+  type: 'string',
+  default: '',
+}
+
+export const variableOption: Options = {
+  description: 'a variable to interpolate in the configuration, in the form of <name>=<value>',
+  type: 'string',
+  array: true,
+  default: [],
+}
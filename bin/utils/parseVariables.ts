@@ -0,0 +1,22 @@
+import { fromPairs } from 'lodash'
+import type { InterpolationVariables } from '@src/project/utils/interpolateConfiguration'
+
+/**
+ * Parses the variables given in the command line, in the form of <name>=<value>
+ *
+ * @param {String[]} variables the variables to parse
+ * @returns {InterpolationVariables} the variables, keyed by their name
+ */
+export const parseVariables = (variables: string[] = []): InterpolationVariables =>
+  fromPairs(
+    variables.map((variable) => {
+      const match = variable.match(/^([^=]+)=(.*)$/)
+
+      if (!match) {
+        throw new Error(`Invalid variable "${variable}", please use the <name>=<value> format`)
+      }
+
+      const [, name, value] = match
+      return [name.trim(), value]
+    }),
+  )
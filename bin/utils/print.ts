@@ -0,0 +1,21 @@
+/* eslint-disable no-console */
+import { inspect } from 'util'
+import { groupBy } from 'lodash'
+import type { ValidationError } from '@lib/errors'
+
+export const print = (message: string, indentation = 0) => {
+  const spacing = Array(indentation).fill(' ').join('')
+  console.error(`${spacing}${message}`)
+}
+
+export const printValidationError = (err: ValidationError, indentation = 0) => {
+  Object.entries(groupBy(err.errors, (err) => err.parent.name)).forEach(([serviceName, errors]) => {
+    print(`Service "${serviceName} contains the following errors:"`, indentation + 2)
+    errors.forEach((error) => {
+      const prefix = error.key.match(/[a-zA-Z]/)
+        ? `Property "${error.key}" contains invalid value ${inspect(error.value)}: it`
+        : 'It'
+      print(`• ${prefix} ${error.message}`, indentation + 4)
+    })
+  })
+}
@@ -0,0 +1,75 @@
+import readline from 'node:readline'
+import { isEmpty } from 'lodash'
+
+export type PromptOptions = {
+  choices?: string[]
+  defaultValue?: string
+  multiple?: boolean
+}
+
+export type Prompt = {
+  ask: (message: string, options?: PromptOptions) => Promise<string[]>
+  close: () => void
+}
+
+/**
+ * Returns a prompt that asks questions in the terminal
+ *
+ * @returns {Prompt} the prompt
+ */
+export const getPrompt = (): Prompt => {
+  const rl = readline.createInterface({ input: process.stdin, output: process.stdout })
+
+  // Lines are buffered so that answers piped through stdin are not lost between questions
+  const lines: string[] = []
+  const pending: { resolve: (line: string) => void; reject: (err: Error) => void }[] = []
+  let isClosed = false
+
+  rl.on('line', (line) => {
+    const next = pending.shift()
+    return next ? next.resolve(line) : lines.push(line)
+  })
+
+  rl.on('close', () => {
+    isClosed = true
+    pending.splice(0).forEach(({ reject }) => reject(new Error('No answer was provided')))
+  })
+
+  const question = (message: string) =>
+    new Promise<string>((resolve, reject) => {
+      process.stdout.write(message)
+
+      if (lines.length) {
+        return resolve(lines.shift() as string)
+      }
+
+      if (isClosed) {
+        return reject(new Error('No answer was provided'))
+      }
+
+      pending.push({ resolve, reject })
+    })
+
+  const ask = async (message: string, options: PromptOptions = {}): Promise<string[]> => {
+    const { choices = [], defaultValue = '', multiple = false } = options
+    const hints = [
+      !isEmpty(choices) ? `${multiple ? 'any of' : 'one of'}: ${choices.join(', ')}` : '',
+      defaultValue ? `default: ${defaultValue}` : '',
+    ].filter(Boolean)
+
+    const answer = await question(`${message}${hints.length ? ` (${hints.join(' / ')})` : ''}: `)
+    const raw = answer.trim() || defaultValue
+    const values = (multiple ? raw.split(',') : [raw]).map((v) => v.trim()).filter(Boolean)
+
+    const invalid = values.filter((value) => !isEmpty(choices) && !choices.includes(value))
+
+    if (!isEmpty(invalid) || (!multiple && values.length !== 1)) {
+      console.error(`Invalid answer ${invalid.join(', ')}, please try again`) // eslint-disable-line no-console
+      return ask(message, options)
+    }
+
+    return values
+  }
+
+  return { ask, close: () => rl.close() }
+}
@@ -0,0 +1,23 @@
+import path from 'node:path'
+import { readJsonFile, readYamlFile } from '@src/lib/file'
+import { loadPlugins } from '@src/project/utils/loadPlugins'
+import type { ProjectConfiguration } from '@src/project'
+
+/**
+ * Reads the project's configuration file, either in YAML or JSON format,
+ * and registers the services of the plugins it declares
+ *
+ * @param {String} configuration the path to the configuration file
+ * @returns {ProjectConfiguration} the project configuration
+ */
+export const readConfiguration = (configuration: string): ProjectConfiguration => {
+  const contents =
+    configuration.endsWith('.yml') || configuration.endsWith('.yaml')
+      ? readYamlFile(configuration)
+      : readJsonFile(configuration)
+
+  const project = contents as ProjectConfiguration
+  loadPlugins(project.plugins || [], path.dirname(configuration))
+
+  return project
+}
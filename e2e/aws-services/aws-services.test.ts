@@ -77,31 +77,35 @@ describe('AWS End To End Tests', () => {
     expect(
       logs.some((line) =>
         line.match(
-          /aws_mysql_eu_central_1_1_endpoint\s=\s\"mysql-database-production.[a-z]+.eu-central-1.rds.amazonaws.com:3306\"/,
+          /aws_mysql_eu_central_1_mysql_database_endpoint\s=\s\"mysql-database-production.[a-z]+.eu-central-1.rds.amazonaws.com:3306\"/,
         ),
       ),
     ).toBe(true)
     expect(
-      logs.some((line) => line.match(/aws_networking_eu_central_1_1_vpc_id\s=\s\"vpc-[a-z0-9]+\"/)),
+      logs.some((line) =>
+        line.match(
+          /aws_networking_eu_central_1_aws_networking_service_vpc_id\s=\s\"vpc-[a-z0-9]+\"/,
+        ),
+      ),
     ).toBe(true)
     expect(
       logs.some((line) =>
         line.match(
-          /aws_objectstore_eu_central_1_1_bucket_stackmate_tests_e_2_e_bucket_1_domain_name\s=\s\"stackmate-tests-e2e-bucket-1.s3.amazonaws.com\"/,
+          /aws_objectstore_eu_central_1_object_store_bucket_stackmate_tests_e_2_e_bucket_1_domain_name\s=\s\"stackmate-tests-e2e-bucket-1.s3.amazonaws.com\"/,
         ),
       ),
     ).toBe(true)
     expect(
       logs.some((line) =>
         line.match(
-          /aws_objectstore_eu_central_1_1_bucket_stackmate_tests_e_2_e_bucket_1_regional_domain_name\s=\s\"stackmate-tests-e2e-bucket-1.s3.eu-central-1.amazonaws.com\"/,
+          /aws_objectstore_eu_central_1_object_store_bucket_stackmate_tests_e_2_e_bucket_1_regional_domain_name\s=\s\"stackmate-tests-e2e-bucket-1.s3.eu-central-1.amazonaws.com\"/,
         ),
       ),
     ).toBe(true)
     expect(
       logs.some((line) =>
         line.match(
-          /aws_redis_eu_central_1_1_endpoint\s=\s\"redis-kv-production.[0-9a-z]+.0001.euc1.cache.amazonaws.com\"/,
+          /aws_redis_eu_central_1_redis_kv_endpoint\s=\s\"redis-kv-production.[0-9a-z]+.0001.euc1.cache.amazonaws.com\"/,
         ),
       ),
     ).toBe(true)
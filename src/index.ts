@@ -4,3 +4,9 @@ export * from '@lib/util'
 
 export { Operation } from '@src/operation'
 export { Registry as Services } from '@services/registry'
+
+// The building blocks for the services that plugins provide
+export * as behaviors from '@services/behaviors'
+export { getBaseService } from '@services/utils'
+export { loadPlugins, type StackmatePlugin } from '@src/project/utils/loadPlugins'
+export type * from '@services/types'
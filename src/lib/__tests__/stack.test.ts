@@ -43,4 +43,24 @@ describe('Stack', () => {
       },
     })
   })
+
+  it('exports the moved resources', () => {
+    subject.move('aws_s3_bucket.old', 'aws_s3_bucket.new')
+
+    expect(JSON.parse(subject.toSynthesized().content)).toMatchObject({
+      moved: [{ from: 'aws_s3_bucket.old', to: 'aws_s3_bucket.new' }],
+    })
+  })
+
+  it('chains the resources that are moved to the same address', () => {
+    subject.move('aws_s3_bucket.first', 'aws_s3_bucket.new')
+    subject.move('aws_s3_bucket.oldest', 'aws_s3_bucket.old')
+    subject.move('aws_s3_bucket.old', 'aws_s3_bucket.new')
+
+    expect(JSON.parse(subject.toSynthesized().content).moved).toEqual([
+      { from: 'aws_s3_bucket.first', to: 'aws_s3_bucket.oldest' },
+      { from: 'aws_s3_bucket.oldest', to: 'aws_s3_bucket.old' },
+      { from: 'aws_s3_bucket.old', to: 'aws_s3_bucket.new' },
+    ])
+  })
 })
@@ -48,3 +48,7 @@ export const readYamlFile = <T = object>(path: string): T => {
     throw new Error(`File ${path} is not a valid YAML file`)
   }
 }
+
+export const writeYamlFile = (contents: object, filename: string) => {
+  writeFile(YAML.stringify(contents), filename)
+}
@@ -114,6 +114,11 @@ export type JsonSchema<T = undefined> = {
    */
   patternProperties?: T extends Obj ? { [pattern in keyof T]?: JsonSchema<T[pattern]> } : never
 
+  /**
+   * The schema that the names of the object's properties should validate against
+   */
+  propertyNames?: JsonSchema<string>
+
   /**
    * If the key is present as a property then the string of properties must also be present.
    * If the value is a JSON Schema then it must also be valid for the object if the key is present.
@@ -171,6 +176,8 @@ export type JsonSchema<T = undefined> = {
   serviceProfile?: boolean
   serviceProfileOverrides?: boolean
   uniqueAppDomains?: boolean
+  uniqueAppTestPorts?: boolean
+  uniqueNames?: boolean
 
   // AJV-error specific
   errorMessage?:
@@ -182,6 +189,7 @@ export type JsonSchema<T = undefined> = {
 
         // Error messages for when some conditions are not met
         oneOf?: string
+        anyOf?: string
         enum?: string
         pattern?: string
         format?: string
@@ -194,6 +202,7 @@ export type JsonSchema<T = undefined> = {
         minItems?: string
         maxLength?: string
         minLength?: string
+        uniqueNames?: string
 
         properties?: { [property: string]: string } | string
         required?: { [property: string]: string } | string
@@ -4,6 +4,11 @@ import { TerraformStack, App as TerraformApp, TerraformLocal, Manifest } from 'c
 import type { SynthesizedStack } from '@cdktf/cli-core'
 import type { Dictionary } from 'lodash'
 
+export type TerraformMove = {
+  from: string
+  to: string
+}
+
 export class Stack {
   /**
    * @var {TerraformApp} app the terraform app for synthesizing the stack
@@ -27,6 +32,11 @@ export class Stack {
    */
   readonly #variables: Dictionary<string | undefined>
 
+  /**
+   * @var {TerraformMove[]} moves the resources to move from one address to another
+   */
+  readonly #moves: TerraformMove[] = []
+
   /**
    * @constructor
    * @param {String} name the stack's name
@@ -52,15 +62,46 @@ export class Stack {
     return new TerraformLocal(this.context, snakeCase(`var_${name}`), this.#variables[name] || '')
   }
 
+  /**
+   * Moves a resource to a new address, instead of destroying and creating it again
+   *
+   * @param {String} from the address the resource was deployed under, eg. aws_s3_bucket.old
+   * @param {String} to the address the resource is now declared under
+   */
+  move(from: string, to: string) {
+    if (this.#moves.some((move) => move.from === from && move.to === to)) {
+      return
+    }
+
+    const getFirstAddress = (address: string): string => {
+      const previous = this.#moves.find((move) => move.to === address)
+      return previous ? getFirstAddress(previous.from) : address
+    }
+
+    // Terraform refuses more than one move to the same address, so the resources that were
+    // moved to it earlier are chained in front of this move instead (a → c, b → c: a → b → c)
+    const first = getFirstAddress(from)
+    this.#moves
+      .filter((move) => move.to === to)
+      .forEach((move) => Object.assign(move, { to: first }))
+
+    this.#moves.push({ from, to })
+  }
+
   /**
    * @returns {Object} the stack exported as terraform json object
    */
   toSynthesized(): SynthesizedStack {
     const workingDirectory = path.join(this.app.outdir, Manifest.stacksFolder, this.name)
+    const terraform = this.context.toTerraform()
+
+    if (this.#moves.length) {
+      terraform.moved = [...(terraform.moved || []), ...this.#moves]
+    }
 
     return {
       name: this.name,
-      content: JSON.stringify(this.context.toTerraform(), null, 2),
+      content: JSON.stringify(terraform, null, 2),
       workingDirectory,
       annotations: [],
       constructPath: workingDirectory,
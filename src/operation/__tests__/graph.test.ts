@@ -0,0 +1,78 @@
+import os from 'node:os'
+import { Operation, formatGraph } from '@src/operation'
+import { ENVIRONMENT } from '@src/project/constants'
+import { getProjectMock } from '@tests/mocks/project'
+import { getAwsDbConfigMock } from '@tests/mocks/aws'
+import { getProjectServices } from '@src/project/utils/getProjectServices'
+import type { OperationGraph } from '@src/operation'
+import type { AwsMySQLAttributes } from '@src/services/providers/aws/services/database'
+
+describe('Operation graph', () => {
+  let graph: OperationGraph
+
+  beforeEach(() => {
+    const config = {
+      ...getAwsDbConfigMock('mysql', 'mysql'),
+      name: 'main-db',
+    } as AwsMySQLAttributes
+    const project = getProjectMock([config], ENVIRONMENT.PRODUCTION)
+    const services = getProjectServices(project, ENVIRONMENT.PRODUCTION)
+
+    graph = new Operation(services, ENVIRONMENT.PRODUCTION, os.tmpdir()).toGraph()
+  })
+
+  it('includes the auto-generated services as nodes', () => {
+    expect(graph.name).toEqual(ENVIRONMENT.PRODUCTION)
+    expect(graph.nodes.map(({ name }) => name)).toEqual(
+      expect.arrayContaining([
+        'project-state',
+        'main-db',
+        'aws-networking-service',
+        'aws-provider-service',
+      ]),
+    )
+
+    expect(graph.nodes).toContainEqual({
+      id: 'aws_mysql_eu_central_1_main_db',
+      name: 'main-db',
+      provider: 'aws',
+      type: 'mysql',
+      region: 'eu-central-1',
+    })
+  })
+
+  it('includes the associations as requirement edges', () => {
+    expect(graph.edges).toContainEqual({
+      from: 'aws_mysql_eu_central_1_main_db',
+      to: 'aws_networking_eu_central_1_aws_networking_service',
+      association: 'vpc',
+      kind: 'requirement',
+    })
+  })
+
+  it('formats the graph in the DOT language', () => {
+    const output = formatGraph(graph, 'dot')
+
+    expect(output).toMatch(/^digraph "production" \{/)
+    expect(output).toContain(
+      '"aws_mysql_eu_central_1_main_db" [label="main-db\\naws mysql eu-central-1"]',
+    )
+    expect(output).toContain(
+      '"aws_mysql_eu_central_1_main_db" -> "aws_networking_eu_central_1_aws_networking_service" [label="vpc"]',
+    )
+  })
+
+  it('formats the graph as a Mermaid flowchart', () => {
+    const output = formatGraph(graph, 'mermaid')
+
+    expect(output).toMatch(/^flowchart LR/)
+    expect(output).toContain('aws_mysql_eu_central_1_main_db["main-db<br/>aws mysql eu-central-1"]')
+    expect(output).toContain(
+      'aws_mysql_eu_central_1_main_db -->|vpc| aws_networking_eu_central_1_aws_networking_service',
+    )
+  })
+
+  it('formats the graph as JSON', () => {
+    expect(JSON.parse(formatGraph(graph, 'json'))).toEqual(graph)
+  })
+})
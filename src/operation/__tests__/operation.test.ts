@@ -0,0 +1,41 @@
+import os from 'node:os'
+import { SERVICE_TYPE } from '@src/constants'
+import { Operation } from '@src/operation'
+import { ENVIRONMENT } from '@src/project/constants'
+import { getProjectMock } from '@tests/mocks/project'
+import { getAwsDbConfigMock } from '@tests/mocks/aws'
+import { getProjectServices } from '@src/project/utils/getProjectServices'
+import { AwsProvider } from '@src/services/providers/aws/services/provider'
+import type { AwsMySQLAttributes } from '@src/services/providers/aws/services/database'
+
+describe('Operation associations', () => {
+  const config = { ...getAwsDbConfigMock('mysql', 'mysql'), name: 'main-db' } as AwsMySQLAttributes
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  it('throws an error when a requirement does not match any service', () => {
+    expect(() => new Operation([config], ENVIRONMENT.PRODUCTION, os.tmpdir())).toThrow(
+      'The "providerInstance" requirement of the "main-db" service does not match any service',
+    )
+  })
+
+  it('throws an error when the requirements form a cycle', () => {
+    const project = getProjectMock([config], ENVIRONMENT.PRODUCTION)
+    const services = getProjectServices(project, ENVIRONMENT.PRODUCTION)
+
+    jest.replaceProperty(AwsProvider, 'associations', {
+      ...AwsProvider.associations,
+      database: {
+        with: SERVICE_TYPE.MYSQL,
+        requirement: true,
+        handler: () => {},
+      },
+    })
+
+    expect(() => new Operation(services, ENVIRONMENT.PRODUCTION, os.tmpdir())).toThrow(
+      'form a cycle, please check their associations: aws-provider-service -[database]-> main-db -[providerInstance]-> aws-provider-service',
+    )
+  })
+})
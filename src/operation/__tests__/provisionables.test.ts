@@ -0,0 +1,269 @@
+import { uniqBy } from 'lodash'
+import { SERVICE_TYPE } from '@src/constants'
+import {
+  cloudwatchLogGroup,
+  dbInstance,
+  elasticacheCluster,
+  iamPolicy,
+  iamUser,
+} from '@cdktf/provider-aws'
+import { getAwsAppConfigMock, getAwsCacheConfigMock, getAwsDbConfigMock } from '@tests/mocks/aws'
+import { getSynthesizedStack } from '@tests/helpers/getSynthesizedStack'
+import { ProvisionablesMap } from '@src/operation/provisionables'
+import type { AwsMySQLAttributes } from '@src/services/providers/aws/services/database'
+import type { AwsRedisAttributes } from '@src/services/providers/aws/services/cache'
+import type { AwsObjectStoreAttributes } from '@src/services/providers/aws/services/objectStore'
+import type { BaseServiceAttributes } from '@src/services/types'
+
+const getProvisionables = (configs: BaseServiceAttributes[]) => {
+  const provisionables = new ProvisionablesMap()
+  configs.forEach((config) => provisionables.create(config))
+  return provisionables
+}
+
+describe('ProvisionablesMap', () => {
+  it('derives the resource ids from the service names', () => {
+    const first = { ...getAwsDbConfigMock(SERVICE_TYPE.MYSQL), name: 'main-db' }
+    const second = { ...getAwsDbConfigMock(SERVICE_TYPE.MYSQL), name: 'reports-db' }
+
+    const provisionables = getProvisionables([second, first])
+    const ids = Array.from(provisionables.values()).map(({ config, resourceId }) => [
+      config.name,
+      resourceId,
+    ])
+
+    expect(ids).toEqual(
+      expect.arrayContaining([
+        ['main-db', 'aws_mysql_eu_central_1_main_db'],
+        ['reports-db', 'aws_mysql_eu_central_1_reports_db'],
+      ]),
+    )
+  })
+
+  it('keeps the count-based resource ids the services used to have', () => {
+    const first = { ...getAwsDbConfigMock(SERVICE_TYPE.MYSQL), name: 'main-db' }
+    const second = { ...getAwsDbConfigMock(SERVICE_TYPE.MYSQL), name: 'reports-db' }
+
+    const provisionables = getProvisionables([first, second])
+    const [main, reports] = Array.from(provisionables.values())
+
+    expect(main.legacyResourceId).toEqual('aws_mysql_eu_central_1_1')
+    expect(reports.legacyResourceId).toEqual('aws_mysql_eu_central_1_2')
+  })
+
+  it('tells apart the services with the same name in different regions', () => {
+    const first = { ...getAwsDbConfigMock(SERVICE_TYPE.MYSQL), name: 'main-db' }
+    const second = { ...first, region: 'eu-west-1' }
+
+    const provisionables = getProvisionables([first, second])
+    const ids = Array.from(provisionables.values()).map(({ resourceId }) => resourceId)
+
+    expect(ids).toEqual(['aws_mysql_eu_central_1_main_db', 'aws_mysql_eu_west_1_main_db'])
+  })
+
+  it('throws an error when two services would get the same resource id', () => {
+    const first = { ...getAwsDbConfigMock(SERVICE_TYPE.MYSQL), name: 'main-db' }
+    const second = { ...getAwsDbConfigMock(SERVICE_TYPE.MYSQL), name: 'main_db' }
+
+    expect(() => getProvisionables([first, second])).toThrow(
+      'The services "main-db" and "main_db" cannot be told apart, please rename one of them',
+    )
+  })
+
+  it('moves the resources from their count-based addresses', () => {
+    const config = {
+      ...getAwsDbConfigMock('mysql', 'mysql'),
+      name: 'main-db',
+    } as AwsMySQLAttributes
+    const { moved } = JSON.parse(getSynthesizedStack([config]))
+
+    expect(moved).toEqual(
+      expect.arrayContaining([
+        {
+          from: 'aws_db_instance.aws_mysql_eu_central_1_1',
+          to: 'aws_db_instance.aws_mysql_eu_central_1_main_db',
+        },
+        {
+          from: 'aws_db_parameter_group.aws_mysql_eu_central_1_1_params',
+          to: 'aws_db_parameter_group.aws_mysql_eu_central_1_main_db_params',
+        },
+      ]),
+    )
+  })
+  it('moves every resource that a count-based deployment has to its current address', () => {
+    const configs = [
+      { ...getAwsAppConfigMock(), name: 'web', port: 3000, domain: 'example.com' },
+      { ...getAwsAppConfigMock(), name: 'api', port: 8080, domain: 'example.org' },
+      { ...getAwsCacheConfigMock('redis', 'redis', false), name: 'kv' } as AwsRedisAttributes,
+      {
+        ...getAwsDbConfigMock('mysql', 'mysql'),
+        name: 'main-db',
+        database: 'main_db',
+      } as AwsMySQLAttributes,
+      {
+        name: 'files',
+        type: 'object-store',
+        provider: 'aws',
+        region: 'eu-central-1',
+        buckets: [{ name: 'stackmate-test-files' }],
+      } as AwsObjectStoreAttributes,
+    ]
+
+    const { resource, moved } = JSON.parse(getSynthesizedStack(configs))
+
+    const addresses = Object.entries(resource).flatMap(([type, resources]) =>
+      Object.keys(resources as object).map((id) => `${type}.${id}`),
+    )
+    const movedFrom = (moved as { from: string; to: string }[]).map(({ from }) => from)
+
+    // The addresses that a deployment of the same configuration had with count-based ids
+    const deployed = [
+      'aws_kms_key.aws_provider_eu_central_1_1_key',
+      'aws_vpc.aws_networking_eu_central_1_1',
+      'aws_subnet.aws_networking_eu_central_1_1_subnet1',
+      'aws_subnet.aws_networking_eu_central_1_1_public_subnet1',
+      'aws_internet_gateway.aws_networking_eu_central_1_1_gateway',
+      'aws_route_table.aws_networking_eu_central_1_1_route_table',
+      'aws_route_table_association.aws_networking_eu_central_1_1_association0',
+      'aws_cloudwatch_log_group.aws_application_cluster_eu_central_1_1_logs',
+      'aws_ecs_cluster.aws_application_cluster_eu_central_1_1',
+      'aws_ecr_repository.aws_application_cluster_eu_central_1_1_repository',
+      'aws_iam_role.aws_application_cluster_eu_central_1_1_task_execution_role',
+      'aws_route53_zone.aws_dns_1',
+      'aws_route53_zone.aws_dns_2',
+      'aws_security_group.aws_loadbalancer_eu_central_1_1_security_group',
+      'aws_alb.aws_loadbalancer_eu_central_1_1',
+      'aws_acm_certificate.aws_ssl_1',
+      'aws_acm_certificate.aws_ssl_2',
+      'aws_acm_certificate_validation.aws_ssl_1_certificate_validation',
+      'aws_acm_certificate_validation.aws_ssl_2_certificate_validation',
+      'aws_security_group.aws_application_eu_central_1_1_security_group',
+      'aws_ecs_task_definition.aws_application_eu_central_1_1_task_definition',
+      'aws_ecs_task_definition.aws_application_eu_central_1_2_task_definition',
+      'aws_alb_target_group.aws_application_eu_central_1_1_target_group',
+      'aws_alb_listener.aws_application_eu_central_1_1_listener_http',
+      'aws_alb_listener.aws_application_eu_central_1_1_listener_https',
+      'aws_route53_record.aws_application_eu_central_1_1_dns_record',
+      'aws_route53_record.aws_application_eu_central_1_2_dns_record_www',
+      'aws_ecs_service.aws_application_eu_central_1_1_service',
+      'aws_ecs_service.aws_application_eu_central_1_2_service',
+      'aws_sns_topic.web-eu-central-1-production',
+      'aws_cloudwatch_metric_alarm.web-cpu-utilization-low',
+      'aws_cloudwatch_metric_alarm.kv-production-cpu-utilization-too-high',
+      'aws_cloudwatch_metric_alarm.main-db-production-burst-balance-too-low',
+      'aws_elasticache_subnet_group.aws_redis_eu_central_1_1_subnet_group',
+      'aws_elasticache_parameter_group.aws_redis_eu_central_1_1_params',
+      'aws_cloudwatch_log_group.aws_redis_eu_central_1_1_log_group',
+      'aws_elasticache_cluster.aws_redis_eu_central_1_1',
+      'aws_db_subnet_group.aws_mysql_eu_central_1_1_subnet_group',
+      'aws_db_parameter_group.aws_mysql_eu_central_1_1_params',
+      'aws_db_instance.aws_mysql_eu_central_1_1',
+      'aws_db_event_subscription.aws_mysql_eu_central_1_1-event-sub',
+      'aws_iam_user.aws_object_store_eu_central_1_1_user',
+      'aws_s3_bucket.aws_object_store_eu_central_1_1_bucket_stackmate_test_files',
+      'aws_iam_policy.aws_object_store_eu_central_1_1_policy',
+      'aws_iam_user_policy_attachment.aws_object_store_eu_central_1_1_policy_attachment',
+    ]
+
+    deployed.forEach((address) => {
+      expect([...addresses, ...movedFrom]).toContain(address)
+    })
+
+    // Terraform refuses more than one move to the same address
+    expect(uniqBy(moved, 'to')).toHaveLength(moved.length)
+  })
+
+  it('moves the resources of a renamed service from the addresses of its previous name', () => {
+    const config = {
+      ...getAwsDbConfigMock('mysql', 'mysql'),
+      name: 'main-db',
+      renamedFrom: 'old-db',
+    } as AwsMySQLAttributes
+
+    const { moved } = JSON.parse(getSynthesizedStack([config]))
+
+    expect(moved).toEqual(
+      expect.arrayContaining([
+        {
+          from: 'aws_db_instance.aws_mysql_eu_central_1_1',
+          to: 'aws_db_instance.aws_mysql_eu_central_1_old_db',
+        },
+        {
+          from: 'aws_db_instance.aws_mysql_eu_central_1_old_db',
+          to: 'aws_db_instance.aws_mysql_eu_central_1_main_db',
+        },
+        {
+          from: 'aws_db_parameter_group.aws_mysql_eu_central_1_old_db_params',
+          to: 'aws_db_parameter_group.aws_mysql_eu_central_1_main_db_params',
+        },
+      ]),
+    )
+  })
+
+  it('keeps the physical names of the resources of a renamed service', () => {
+    const db = {
+      ...getAwsDbConfigMock('mysql', 'mysql'),
+      name: 'main-db',
+      renamedFrom: 'old-db',
+    } as AwsMySQLAttributes
+
+    const cache = {
+      ...getAwsCacheConfigMock('redis', 'redis', false),
+      name: 'main-cache',
+      renamedFrom: 'old-cache',
+    } as AwsRedisAttributes
+
+    const stack = getSynthesizedStack([db, cache])
+
+    expect(stack).toHaveResourceWithProperties(dbInstance.DbInstance, {
+      identifier: 'old-db-production',
+      username: 'stackmateOldDbRoot',
+    })
+
+    expect(stack).toHaveResourceWithProperties(elasticacheCluster.ElasticacheCluster, {
+      cluster_id: 'old-cache-production',
+    })
+  })
+
+  it('keeps the physical names that were derived from the count-based resource ids', () => {
+    const cache = {
+      ...getAwsCacheConfigMock('redis', 'redis', false),
+      name: 'kv',
+    } as AwsRedisAttributes
+
+    const store = {
+      name: 'files',
+      type: 'object-store',
+      provider: 'aws',
+      region: 'eu-central-1',
+      buckets: [{ name: 'stackmate-test-files' }],
+    } as AwsObjectStoreAttributes
+
+    const stack = getSynthesizedStack([cache, store])
+
+    expect(stack).toHaveResourceWithProperties(cloudwatchLogGroup.CloudwatchLogGroup, {
+      name: 'aws_redis_eu_central_1_1-log-group',
+    })
+
+    expect(stack).toHaveResourceWithProperties(iamUser.IamUser, {
+      name: 'StackmateAwsObjectStoreEuCentral11StorageUser',
+    })
+
+    expect(stack).toHaveResourceWithProperties(iamPolicy.IamPolicy, {
+      name: 'AwsObjectStoreEuCentral11S3Policy',
+    })
+  })
+
+  it('throws an error when a service is renamed from the name of another service', () => {
+    const first = { ...getAwsDbConfigMock('mysql', 'mysql'), name: 'main-db' } as AwsMySQLAttributes
+    const second = {
+      ...getAwsDbConfigMock('mysql', 'mysql'),
+      name: 'reports-db',
+      renamedFrom: 'main-db',
+    } as AwsMySQLAttributes
+
+    expect(() => getSynthesizedStack([first, second])).toThrow(
+      'The service "reports-db" is renamed from "main-db", which is the name of another service',
+    )
+  })
+})
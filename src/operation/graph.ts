@@ -0,0 +1,95 @@
+import type { ChoiceOf } from '@lib/util'
+import type { ProviderChoice, ServiceTypeChoice } from '@services/types'
+
+export const GRAPH_FORMAT = {
+  DOT: 'dot',
+  MERMAID: 'mermaid',
+  JSON: 'json',
+} as const
+
+export const ASSOCIATION_KIND = {
+  REQUIREMENT: 'requirement',
+  SIDE_EFFECT: 'sideEffect',
+} as const
+
+export type GraphFormatChoice = ChoiceOf<typeof GRAPH_FORMAT>
+export type AssociationKindChoice = ChoiceOf<typeof ASSOCIATION_KIND>
+
+export type GraphNode = {
+  id: string
+  name: string
+  provider: ProviderChoice
+  type: ServiceTypeChoice
+  region?: string
+}
+
+export type GraphEdge = {
+  from: string
+  to: string
+  association: string
+  kind: AssociationKindChoice
+}
+
+export type OperationGraph = {
+  name: string
+  nodes: GraphNode[]
+  edges: GraphEdge[]
+}
+
+/**
+ * @param {GraphNode} node the node to describe
+ * @returns {String} the node's service type, provider and region
+ */
+const getNodeDescription = ({ provider, type, region }: GraphNode): string =>
+  [provider, type, region].filter(Boolean).join(' ')
+
+/**
+ * @param {OperationGraph} graph the graph to format
+ * @returns {String} the graph in the DOT language
+ */
+const toDot = ({ name, nodes, edges }: OperationGraph): string =>
+  [
+    `digraph "${name}" {`,
+    '  rankdir=LR',
+    ...nodes.map((node) => `  "${node.id}" [label="${node.name}\\n${getNodeDescription(node)}"]`),
+    ...edges.map(
+      ({ from, to, association, kind }) =>
+        `  "${from}" -> "${to}" [label="${association}"${
+          kind === ASSOCIATION_KIND.SIDE_EFFECT ? ', style=dashed' : ''
+        }]`,
+    ),
+    '}',
+  ].join('\n')
+
+/**
+ * @param {OperationGraph} graph the graph to format
+ * @returns {String} the graph as a Mermaid flowchart
+ */
+const toMermaid = ({ nodes, edges }: OperationGraph): string =>
+  [
+    'flowchart LR',
+    ...nodes.map((node) => `  ${node.id}["${node.name}<br/>${getNodeDescription(node)}"]`),
+    ...edges.map(
+      ({ from, to, association, kind }) =>
+        `  ${from} ${kind === ASSOCIATION_KIND.SIDE_EFFECT ? '-.->' : '-->'}|${association}| ${to}`,
+    ),
+  ].join('\n')
+
+/**
+ * Formats the association graph of an operation. Requirements are drawn as solid edges,
+ * side-effects as dashed ones
+ *
+ * @param {OperationGraph} graph the graph to format
+ * @param {GraphFormatChoice} format the format to output the graph in
+ * @returns {String} the formatted graph
+ */
+export const formatGraph = (graph: OperationGraph, format: GraphFormatChoice): string => {
+  switch (format) {
+    case GRAPH_FORMAT.DOT:
+      return toDot(graph)
+    case GRAPH_FORMAT.MERMAID:
+      return toMermaid(graph)
+    default:
+      return JSON.stringify(graph, null, 2)
+  }
+}
@@ -1,4 +1,5 @@
-import { fromPairs } from 'lodash'
+import { compact, fromPairs, sortBy, uniq } from 'lodash'
+import { TerraformResource } from 'cdktf'
 import { Stack } from '@lib/stack'
 import { getValidData, getServicesSchema } from '@src/validation'
 import { type ServiceConfiguration, type ServiceAttributes } from '@services/registry'
@@ -12,6 +13,7 @@ import type {
 import type { Dictionary } from 'lodash'
 import { ProvisionablesMap } from './provisionables'
 import { assertEnvironmentValid } from './utils/assertEnvironmentValid'
+import { ASSOCIATION_KIND, type GraphEdge, type OperationGraph } from './graph'
 
 type AssociatedProvisionablesMap = Map<BaseProvisionable['id'], AssociatedProvisionable[]>
 
@@ -95,9 +97,110 @@ export class Operation {
     assertEnvironmentValid(allEnvs, this.#variables)
 
     this.provisionables.forEach((provisionable) => this.register(provisionable))
+    this.moveResources()
     return this.stack.toSynthesized()
   }
 
+  /**
+   * Returns the graph of the services in the operation, including the auto-generated ones,
+   * and the associations between them
+   *
+   * @returns {OperationGraph} the association graph
+   */
+  toGraph(): OperationGraph {
+    const provisionables = Array.from(this.provisionables.values())
+    const getEdges = (
+      associations: AssociatedProvisionablesMap,
+      kind: GraphEdge['kind'],
+    ): GraphEdge[] =>
+      provisionables.flatMap(({ id, resourceId }) =>
+        (associations.get(id) || []).map(({ target, name }) => ({
+          from: resourceId,
+          to: target.resourceId,
+          association: name,
+          kind,
+        })),
+      )
+
+    // Sorting keeps the output the same regardless of the order of the services
+    return {
+      name: this.stack.name,
+      nodes: sortBy(
+        provisionables.map(({ resourceId, config: { name, provider, type, region } }) => ({
+          id: resourceId,
+          name,
+          provider,
+          type,
+          ...(region ? { region } : {}),
+        })),
+        'id',
+      ),
+      edges: sortBy(
+        [
+          ...getEdges(this.#requirements, ASSOCIATION_KIND.REQUIREMENT),
+          ...getEdges(this.#sideEffects, ASSOCIATION_KIND.SIDE_EFFECT),
+        ],
+        ['from', 'to', 'association'],
+      ),
+    }
+  }
+
+  /**
+   * Moves the resources of every service from the addresses they were previously deployed under,
+   * which are the count-based ones resource ids used to be, and the ones of the name the service
+   * was renamed from. This way renamed services and projects deployed with the previous ids
+   * don't get their resources replaced
+   *
+   * @throws {Error} if a service is renamed from the name of another service
+   */
+  protected moveResources() {
+    const provisionables = Array.from(this.provisionables.values())
+    const resourceIds = new Set(provisionables.map(({ resourceId }) => resourceId))
+    const resources = this.stack.context.node.children.filter(
+      (child): child is TerraformResource => child instanceof TerraformResource,
+    )
+
+    const addresses = new Set(
+      resources.map(({ terraformResourceType, friendlyUniqueId }) =>
+        [terraformResourceType, friendlyUniqueId].join('.'),
+      ),
+    )
+
+    const claimed = new Set<TerraformResource>()
+
+    // A resource belongs to the service with the longest resource id it starts with (eg. "db_2" over "db")
+    sortBy(provisionables, ({ resourceId }) => -resourceId.length).forEach(
+      ({ id, config, resourceId, legacyResourceId }) => {
+        const previousId = this.provisionables.getPreviousResourceId(id)
+
+        if (previousId && previousId !== resourceId && resourceIds.has(previousId)) {
+          throw new Error(
+            `The service "${config.name}" is renamed from "${config.renamedFrom}", which is the name of another service, please remove the "renamedFrom" attribute`,
+          )
+        }
+
+        // The resources move along the ids the service had, from the oldest to the current one
+        const ids = uniq(compact([legacyResourceId, previousId, resourceId]))
+
+        resources
+          .filter((res) => !claimed.has(res) && res.friendlyUniqueId.startsWith(resourceId))
+          .forEach((res) => {
+            claimed.add(res)
+
+            const suffix = res.friendlyUniqueId.slice(resourceId.length)
+            const path = ids.map((rid) => [res.terraformResourceType, `${rid}${suffix}`].join('.'))
+
+            path.slice(0, -1).forEach((from, idx) => {
+              // Terraform refuses to move resources from addresses that are still in use
+              if (!addresses.has(from)) {
+                this.stack.move(from, path[idx + 1])
+              }
+            })
+          })
+      },
+    )
+  }
+
   /**
    * Initializes and validates the service configurations
    *
@@ -165,15 +268,15 @@ export class Operation {
   protected registerAssociated(
     provisionable: BaseProvisionable,
     links?: AssociatedProvisionable[],
-  ): Record<string, AssociationReturnType> {
+  ): Record<string, AssociationReturnType | AssociationReturnType[]> {
     if (!links) {
       return {}
     }
 
-    const output = {}
+    const output: Record<string, AssociationReturnType | AssociationReturnType[]> = {}
 
     links.forEach((link) => {
-      const { target, name, handler } = link
+      const { target, name, handler, multiple } = link
       const linkedProvisions = this.register(target)
       const out = handler(
         {
@@ -184,18 +287,24 @@ export class Operation {
         provisionable,
       )
 
-      if (output) {
-        Object.assign(output, {
-          [name]: out,
-        })
+      if (multiple) {
+        const previous = (output[name] || []) as AssociationReturnType[]
+        Object.assign(output, { [name]: [...previous, out] })
+        return
       }
+
+      Object.assign(output, {
+        [name]: out,
+      })
     })
 
     return output
   }
 
   /**
-   * Initializes the operation
+   * Maps the provisionables to their requirements and side-effects
+   *
+   * @throws {Error} if a requirement matches no services or the requirements form a cycle
    */
   protected associateProvisionables() {
     for (const provisionable of this.provisionables.values()) {
@@ -210,8 +319,12 @@ export class Operation {
           handler: associationHandler,
           with: associatedServiceType,
           requirement: isRequirement,
+          multiple,
+          optional,
         } = association
 
+        let matches = 0
+
         for (const linked of this.provisionables.values()) {
           if (associatedServiceType && linked.service.type !== associatedServiceType) {
             continue
@@ -223,6 +336,7 @@ export class Operation {
 
           const targetMap = isRequirement ? this.#requirements : this.#sideEffects
           const links = targetMap.get(provisionable.id) || []
+          matches += 1
 
           targetMap.set(provisionable.id, [
             ...links,
@@ -230,10 +344,58 @@ export class Operation {
               target: linked,
               name: associationName,
               handler: associationHandler,
+              multiple,
             },
           ])
         }
+
+        // The service's handler expects the requirement to be there
+        if (isRequirement && !multiple && !optional && !matches) {
+          throw new Error(
+            `The "${associationName}" requirement of the "${config.name}" service does not match any service`,
+          )
+        }
+      }
+    }
+
+    this.assertRequirementsAcyclic()
+  }
+
+  /**
+   * Services are registered after their requirements, so requirements that depend on
+   * each other would have the registration recurse forever
+   *
+   * @throws {Error} if the requirements form a cycle
+   */
+  protected assertRequirementsAcyclic() {
+    const visited = new Set<BaseProvisionable['id']>()
+
+    // The path holds the provisionables being visited and the requirements that lead to the next one
+    const visit = (provisionable: BaseProvisionable, path: [BaseProvisionable, string][]) => {
+      const start = path.findIndex(([prov]) => prov.id === provisionable.id)
+
+      if (start >= 0) {
+        const cycle = path
+          .slice(start)
+          .map(([prov, requirement]) => `${prov.config.name} -[${requirement}]-> `)
+          .join('')
+
+        throw new Error(
+          `The requirements of the services form a cycle, please check their associations: ${cycle}${provisionable.config.name}`,
+        )
+      }
+
+      if (visited.has(provisionable.id)) {
+        return
+      }
+
+      visited.add(provisionable.id)
+
+      for (const { target, name } of this.#requirements.get(provisionable.id) || []) {
+        visit(target, [...path, [provisionable, name]])
       }
     }
+
+    this.provisionables.forEach((provisionable) => visit(provisionable, []))
   }
 }
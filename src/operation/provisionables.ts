@@ -1,5 +1,6 @@
 import { isEqual, snakeCase } from 'lodash'
 import { hashObject } from '@lib/hash'
+import { SERVICE_TYPE } from '@src/constants'
 import { Registry } from '@services/registry'
 import type {
   BaseProvisionable,
@@ -8,12 +9,36 @@ import type {
   ServiceTypeChoice,
 } from '@services/types'
 
+/**
+ * @param {ProviderChoice} provider the resource's provider
+ * @param {ServiceTypeChoice} type the resource's type
+ * @param {String} name the service's name
+ * @param {String} region the resource's region
+ * @returns {String} the resource id
+ */
+const getNameBasedResourceId = (
+  provider: ProviderChoice,
+  type: ServiceTypeChoice,
+  name: string,
+  region?: string,
+): string => snakeCase([provider, type, region, name].filter(Boolean).join('-'))
+
 export class ProvisionablesMap extends Map<string, BaseProvisionable> {
   /**
    * @var {Map} serviceCounts the counts per service type and provider
    */
   #serviceCounts: Map<string, number> = new Map()
 
+  /**
+   * @var {Map} resourceIds the names of the services per resource id
+   */
+  #resourceIds: Map<string, string> = new Map()
+
+  /**
+   * @var {Map} previousResourceIds the resource ids of the names the services were renamed from
+   */
+  #previousResourceIds: Map<string, string> = new Map()
+
   /**
    * Adds a provisionable to the map
    *
@@ -53,29 +78,49 @@ export class ProvisionablesMap extends Map<string, BaseProvisionable> {
     return null
   }
 
+  /**
+   * Returns the resource id a provisionable had under the name its service was renamed from
+   *
+   * @param {String} id the provisionable's id
+   * @returns {String|undefined} the previous resource id
+   */
+  getPreviousResourceId(id: string): string | undefined {
+    return this.#previousResourceIds.get(id)
+  }
+
   /**
    * Gets a provisionable based on a service's attributes
    * @param {BaseServiceAttributes} config the service's configuration
    * @returns {BaseProvisionable} the provisionable to use in operations
    */
   protected getProvisionable<C extends BaseServiceAttributes>(config: C): BaseProvisionable<C> {
-    const { type, provider, region } = config
+    const { type, provider, region, name, renamedFrom } = config
+    const id = hashObject(config)
+
+    // The certificates had no region back when the resource ids were count-based
+    const legacyRegion = type === SERVICE_TYPE.SSL ? undefined : region
+
+    if (renamedFrom) {
+      this.#previousResourceIds.set(id, getNameBasedResourceId(provider, type, renamedFrom, region))
+    }
 
     return {
-      id: hashObject(config),
+      id,
       config,
       service: Registry.get(provider, type),
       requirements: {},
       provisions: {},
       sideEffects: {},
       registered: false,
-      resourceId: this.getResourceId(provider, type, region),
+      resourceId: this.getResourceId(provider, type, name, region),
+      legacyResourceId: this.getCountBasedResourceId(provider, type, legacyRegion),
       variables: {},
     }
   }
 
   /**
-   * Returns a resource's id based on its provider, type and unique count
+   * Returns a resource's id based on its provider, type, region and name. The region tells apart
+   * the auto-generated services, which have the same name in every region
    *
    * !!!!!!!
    * WARNING: Changing the resource ID will trigger new service deployment
@@ -83,9 +128,41 @@ export class ProvisionablesMap extends Map<string, BaseProvisionable> {
    *
    * @param {ProviderChoice} provider the resource's provider
    * @param {ServiceTypeChoice} type the resource's type
+   * @param {String} name the service's name
+   * @param {String} region the resource's region
    * @returns {String} the resource id
+   * @throws {Error} if another service has the same resource id
    */
   protected getResourceId(
+    provider: ProviderChoice,
+    type: ServiceTypeChoice,
+    name: string,
+    region?: string,
+  ): string {
+    const resourceId = getNameBasedResourceId(provider, type, name, region)
+    const existing = this.#resourceIds.get(resourceId)
+
+    // Names that only differ in their separators or casing (eg. my-db and my_db) have the same id
+    if (existing !== undefined && existing !== name) {
+      throw new Error(
+        `The services "${existing}" and "${name}" cannot be told apart, please rename one of them`,
+      )
+    }
+
+    this.#resourceIds.set(resourceId, name)
+    return resourceId
+  }
+
+  /**
+   * Returns a resource's id based on its provider, type and unique count,
+   * which is how resource ids were generated in the past
+   *
+   * @param {ProviderChoice} provider the resource's provider
+   * @param {ServiceTypeChoice} type the resource's type
+   * @param {String} region the resource's region
+   * @returns {String} the resource id
+   */
+  protected getCountBasedResourceId(
     provider: ProviderChoice,
     type: ServiceTypeChoice,
     region?: string,
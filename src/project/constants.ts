@@ -1,14 +1,19 @@
 import { PROVIDER } from '@src/constants'
+import type { ProviderChoice } from '@services/types'
 
 export const DEFAULT_PROVIDER = PROVIDER.AWS
 
-export const DEFAULT_REGION = {
+// Providers registered by plugins have no default region
+export const DEFAULT_REGION: Readonly<Partial<Record<ProviderChoice, string>>> = {
   [PROVIDER.AWS]: 'eu-central-1',
   [PROVIDER.LOCAL]: '',
-} as const
+}
 
 export const ENVIRONMENT = {
   DEVELOPMENT: 'development',
   PRODUCTION: 'production',
   STAGING: 'staging',
 } as const
+
+// Environment names are used in resource names, therefore they should be lowercase
+export const ENVIRONMENT_NAME_PATTERN = '^[a-z0-9][a-z0-9_-]*$'
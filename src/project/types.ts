@@ -2,25 +2,22 @@ import type { AwsStateAttributes } from '@src/services/providers/aws/services/st
 import type { LocalStateAttributes } from '@src/services/providers/local/services/state'
 import type { ServiceConfiguration } from '@src/services/registry'
 import type { ProviderChoice } from '@src/services/types'
-import type {
-  ChoiceOf,
-  DistributiveOmit,
-  DistributiveOptionalKeys,
-  OneOfType,
-  OptionalKeys,
-} from '@lib/util'
-import type { ENVIRONMENT } from '@src/project/constants'
+import type { DistributiveOmit, DistributiveOptionalKeys, OneOfType, OptionalKeys } from '@lib/util'
 
-export type EnvironmentChoice = ChoiceOf<typeof ENVIRONMENT>
+export type EnvironmentChoice = string
 
-export type EnvironmentConfiguration = Partial<
-  Record<EnvironmentChoice, Record<string, OptionalKeys<ServiceConfiguration, 'provider' | 'name'>>>
->
+export type ServiceDeclaration = OptionalKeys<ServiceConfiguration, 'provider' | 'name'>
+
+export type EnvironmentConfiguration = Record<EnvironmentChoice, Record<string, ServiceDeclaration>>
 
 export type ProjectConfiguration = {
   name?: string
   provider?: ProviderChoice
   region?: string
+  primaryEnvironment?: EnvironmentChoice
+  defaults?: Record<string, Partial<ServiceDeclaration>>
+  variables?: Record<string, string>
+  plugins?: string[]
   state: DistributiveOptionalKeys<
     DistributiveOmit<OneOfType<[AwsStateAttributes, LocalStateAttributes]>, 'name' | 'type'>,
     'provider' | 'region'
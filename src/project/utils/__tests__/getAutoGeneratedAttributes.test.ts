@@ -1,3 +1,4 @@
+import { kebabCase } from 'lodash'
 import { getFullStackProjectMock } from '@tests/mocks/project'
 import { PROVIDER, SERVICE_TYPE } from '@src/constants'
 import { ENVIRONMENT } from '@src/project/constants'
@@ -84,9 +85,25 @@ describe('Auto generated attributes for services', () => {
       expect.objectContaining({
         type: SERVICE_TYPE.SSL,
         provider: PROVIDER.AWS,
-        name: `${appConfig.name}-ssl-certificate`,
+        name: kebabCase(`${appConfig.domain}-ssl-certificate`),
         domain: appConfig.domain,
+        region: appConfig.region,
       }),
     )
   })
+  it('provides the attributes for the services required per region', () => {
+    const networkingAttributes = getAutoGeneratedAttributes(
+      SERVICE_TYPE.NETWORKING,
+      project,
+      environment,
+      { ...appConfig, region: 'eu-west-1' },
+    )
+
+    expect(networkingAttributes).toEqual({
+      type: SERVICE_TYPE.NETWORKING,
+      provider: PROVIDER.AWS,
+      region: 'eu-west-1',
+      name: 'aws-networking-service',
+    })
+  })
 })
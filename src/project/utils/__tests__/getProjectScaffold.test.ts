@@ -0,0 +1,80 @@
+import { faker } from '@faker-js/faker'
+import { snakeCase } from 'lodash'
+import { PROVIDER, SERVICE_TYPE } from '@src/constants'
+import { ENVIRONMENT } from '@src/project/constants'
+import {
+  getProjectScaffold,
+  getScaffoldServiceAttributes,
+  getScaffoldServiceTypes,
+} from '@src/project/utils/getProjectScaffold'
+
+describe('getProjectScaffold', () => {
+  const bucket = snakeCase(faker.lorem.words(2)).replace(/_/g, '-')
+
+  it('returns the service types that can be scaffolded', () => {
+    const types = getScaffoldServiceTypes(PROVIDER.AWS)
+
+    expect(types).toEqual(expect.arrayContaining([SERVICE_TYPE.MYSQL, SERVICE_TYPE.APP]))
+    expect(types).not.toContain(SERVICE_TYPE.STATE)
+    expect(types).not.toContain(SERVICE_TYPE.PROVIDER)
+    expect(types).not.toContain(SERVICE_TYPE.OBJECT_STORAGE)
+  })
+
+  it('returns the attributes required for a service', () => {
+    expect(getScaffoldServiceAttributes(PROVIDER.AWS, SERVICE_TYPE.APP)).toEqual(['image'])
+    expect(getScaffoldServiceAttributes(PROVIDER.AWS, SERVICE_TYPE.MYSQL)).toEqual([])
+  })
+
+  it('returns a project configuration with an S3 state backend', () => {
+    const config = getProjectScaffold({
+      name: 'my-project',
+      provider: PROVIDER.AWS,
+      region: 'eu-west-1',
+      state: { provider: PROVIDER.AWS, bucket, lockTable: 'my-lock-table' },
+      services: [
+        { type: SERVICE_TYPE.MYSQL },
+        { type: SERVICE_TYPE.APP, attributes: { image: 'nginx:latest' } },
+      ],
+    })
+
+    expect(config).toEqual({
+      name: 'my-project',
+      provider: PROVIDER.AWS,
+      region: 'eu-west-1',
+      state: { provider: PROVIDER.AWS, bucket, lockTable: 'my-lock-table' },
+      environments: {
+        [ENVIRONMENT.PRODUCTION]: {
+          [SERVICE_TYPE.MYSQL]: { type: SERVICE_TYPE.MYSQL },
+          [SERVICE_TYPE.APP]: { type: SERVICE_TYPE.APP, image: 'nginx:latest' },
+        },
+      },
+    })
+  })
+
+  it('returns a project configuration with a local state backend', () => {
+    const config = getProjectScaffold({
+      provider: PROVIDER.AWS,
+      state: { provider: PROVIDER.LOCAL, directory: '/tmp/states' },
+      services: [{ type: SERVICE_TYPE.REDIS }],
+    })
+
+    expect(config.state).toEqual({
+      provider: PROVIDER.LOCAL,
+      fileName: 'stackmate.tfstate',
+      directory: '/tmp/states',
+    })
+  })
+
+  it('raises a validation error when a required attribute is missing', () => {
+    expect(() =>
+      getProjectScaffold({
+        provider: PROVIDER.AWS,
+        state: { provider: PROVIDER.AWS, bucket },
+        services: [{ type: SERVICE_TYPE.APP }],
+      }),
+    ).toThrowValidationError({
+      path: 'environments.production.application',
+      message: "must have required property 'image'",
+    })
+  })
+})
@@ -40,4 +40,93 @@ describe('getProjectSchema', () => {
       message: 'The same domain name is configured to more than one application services',
     })
   })
+
+  it('allows applications to share a domain when they are routed to by path', () => {
+    const data = {
+      state: {
+        bucket: 'stackmate-state',
+        lockTable: 'stackmate-state-lock',
+      },
+      environments: {
+        [ENVIRONMENT.PRODUCTION]: {
+          app1: {
+            type: SERVICE_TYPE.APP,
+            image: 'stackmate/web:latest',
+            port: 3000,
+            domain: 'stackmate.io',
+          },
+          app2: {
+            type: SERVICE_TYPE.APP,
+            image: 'stackmate/api:latest',
+            port: 8080,
+            domain: 'stackmate.io',
+            path: '/api',
+          },
+        },
+      },
+    }
+
+    expect(() => getValidData(data, schema)).not.toThrow()
+  })
+
+  it('raises a validation error when applications share a blue/green deployment test port', () => {
+    const deployment = { strategy: 'blueGreen', testPort: 8443 }
+    const data = {
+      state: {
+        bucket: 'stackmate-state',
+        lockTable: 'stackmate-state-lock',
+      },
+      environments: {
+        [ENVIRONMENT.PRODUCTION]: {
+          app1: {
+            type: SERVICE_TYPE.APP,
+            image: 'stackmate/web:latest',
+            port: 3000,
+            domain: 'stackmate.io',
+            deployment,
+          },
+          app2: {
+            type: SERVICE_TYPE.APP,
+            image: 'stackmate/api:latest',
+            port: 8080,
+            domain: 'api.stackmate.io',
+            deployment,
+          },
+        },
+      },
+    }
+
+    expect(() => getValidData(data, schema)).toThrowValidationError({
+      path: 'environments.production',
+      message: 'The same deployment test port is configured to more than one application',
+    })
+
+    const { app2 } = data.environments[ENVIRONMENT.PRODUCTION]
+    app2.deployment = { ...deployment, testPort: 9443 }
+    expect(() => getValidData(data, schema)).not.toThrow()
+  })
+
+  it('raises a validation error when an environment name is invalid', () => {
+    const data = { environments: { 'My QA': {} } }
+
+    expect(() => getValidData(data, schema)).toThrowValidationError({
+      path: 'environments',
+      message:
+        'Environment names should only contain lowercase letters, numbers, dashes and underscores',
+    })
+  })
+
+  it('raises a validation error when the primary environment is missing', () => {
+    const data = { environments: { qa: {} } }
+
+    expect(() => getValidData(data, schema)).toThrowValidationError({
+      path: 'environments',
+      message: "must have required property 'production'",
+    })
+
+    expect(() => getValidData(data, getProjectSchema('preview'))).toThrowValidationError({
+      path: 'environments',
+      message: "must have required property 'preview'",
+    })
+  })
 })
@@ -4,7 +4,11 @@ import { getProjectMock } from '@tests/mocks/project'
 import { getProjectServices } from '@src/project/utils/getProjectServices'
 import { faker } from '@faker-js/faker'
 import { ENVIRONMENT } from '@src/project/constants'
+import { CDN_REGION } from '@aws/constants'
+import { omit } from 'lodash'
+import { ValidationError } from '@lib/errors'
 import type { ServiceConfiguration } from '@src/services/registry'
+import type { ValidationErrorDescriptor } from '@lib/errors'
 
 describe('getProjectServices', () => {
   const environment = ENVIRONMENT.PRODUCTION
@@ -91,4 +95,191 @@ describe('getProjectServices', () => {
       ]),
     )
   })
+
+  it('registers a certificate per domain and a DNS zone per top level domain', () => {
+    const app = getAwsAppConfigMock()
+    const config = getProjectMock([
+      app,
+      { ...getAwsAppConfigMock(), domain: `api.${app.domain}` },
+    ] as ServiceConfiguration[])
+
+    const services = getProjectServices(config, environment)
+    expect(services.filter((srv) => srv.type === SERVICE_TYPE.DNS)).toHaveLength(1)
+    expect(services.filter((srv) => srv.type === SERVICE_TYPE.SSL)).toEqual([
+      expect.objectContaining({ domain: app.domain, region: app.region }),
+      expect.objectContaining({ domain: `api.${app.domain}`, region: app.region }),
+    ])
+  })
+
+  it('provisions the services that are available in a single region there by default', () => {
+    const app = { ...getAwsAppConfigMock(), port: 3000 }
+    const cdn = {
+      name: 'cdn',
+      type: SERVICE_TYPE.CDN,
+      domain: `cdn.${app.domain}`,
+      origins: [{ name: 'web', service: app.name }],
+    }
+    const config = getProjectMock([app, cdn] as ServiceConfiguration[])
+
+    const services = getProjectServices(config, environment)
+    expect(services.find((srv) => srv.name === cdn.name)).toMatchObject({ region: CDN_REGION })
+    expect(services.find((srv) => srv.name === app.name)).toMatchObject({ region: app.region })
+    expect(services).toContainEqual(
+      expect.objectContaining({ type: SERVICE_TYPE.SSL, domain: cdn.domain, region: CDN_REGION }),
+    )
+  })
+
+  it('does not register a load balancer for worker applications', () => {
+    const worker = { ...omit(getAwsAppConfigMock(), 'domain'), worker: true }
+    const config = getProjectMock([worker] as ServiceConfiguration[])
+
+    const services = getProjectServices(config, environment)
+    expect(services.map((srv) => srv.type)).not.toContain(SERVICE_TYPE.LOAD_BALANCER)
+    expect(services.map((srv) => srv.type)).toContain(SERVICE_TYPE.NETWORKING)
+  })
+
+  it('enables the NAT gateway on the networking generated for a region with workers', () => {
+    const app = { ...getAwsAppConfigMock(), region: 'eu-west-1' }
+    const worker = { ...omit(getAwsAppConfigMock(), 'domain'), worker: true }
+    const config = getProjectMock([app, worker] as ServiceConfiguration[])
+
+    const networking = getProjectServices(config, environment).filter(
+      (srv) => srv.type === SERVICE_TYPE.NETWORKING,
+    )
+
+    expect(networking).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({ region: worker.region, nat: true }),
+        expect.not.objectContaining({ nat: true }),
+      ]),
+    )
+  })
+
+  it('leaves the NAT gateway of the declared networking services to the configuration', () => {
+    const worker = { ...omit(getAwsAppConfigMock(), 'domain'), worker: true }
+    const config = getProjectMock([
+      { type: SERVICE_TYPE.NETWORKING, region: worker.region, name: 'aws-networking', nat: false },
+      worker,
+    ] as ServiceConfiguration[])
+
+    const services = getProjectServices(config, environment)
+    expect(services).toContainEqual(
+      expect.objectContaining({ type: SERVICE_TYPE.NETWORKING, nat: false }),
+    )
+  })
+
+  it('returns the services for environments that are declared in the configuration', () => {
+    const config = getProjectMock([getAwsDbConfigMock() as ServiceConfiguration])
+    config.environments.qa = config.environments[environment]
+
+    const services = getProjectServices(config, 'qa')
+    expect(services.map((srv) => srv.type)).toContain(SERVICE_TYPE.MYSQL)
+  })
+
+  it('allows a custom primary environment', () => {
+    const config = {
+      ...getProjectMock([getAwsDbConfigMock() as ServiceConfiguration], 'main'),
+      primaryEnvironment: 'main',
+    }
+
+    const services = getProjectServices(config, 'main')
+    expect(services.map((srv) => srv.type)).toContain(SERVICE_TYPE.MYSQL)
+  })
+
+  it('throws an error when the environment is not declared in the configuration', () => {
+    const config = getProjectMock([getAwsDbConfigMock() as ServiceConfiguration])
+
+    expect(() => getProjectServices(config, 'qa')).toThrow('Available environments are: production')
+  })
+
+  it('merges the services of the environment it extends', () => {
+    const dbConfig = getAwsDbConfigMock() as ServiceConfiguration
+    const config = getProjectMock([dbConfig])
+    const { name: dbName } = dbConfig
+
+    config.environments.staging = {
+      extends: environment,
+      [dbName]: { storage: 10 },
+    } as unknown as (typeof config.environments)[string]
+
+    const services = getProjectServices(config, 'staging')
+    expect(services.find((srv) => srv.name === dbName)).toMatchObject({
+      ...omit(dbConfig, 'storage'),
+      storage: 10,
+    })
+  })
+
+  it('applies the project defaults to every environment', () => {
+    const { name: dbName, ...dbConfig } = getAwsDbConfigMock()
+    const config = {
+      ...getProjectMock([{ name: dbName, storage: 10 }]),
+      defaults: { [dbName]: dbConfig },
+    }
+
+    const services = getProjectServices(config, environment)
+    expect(services.find((srv) => srv.name === dbName)).toMatchObject({
+      ...dbConfig,
+      storage: 10,
+    })
+  })
+
+  it('raises a validation error on the effective service when a default is invalid', () => {
+    const { name: dbName, ...dbConfig } = getAwsDbConfigMock()
+    const config = {
+      ...getProjectMock([{ name: dbName }]),
+      defaults: { [dbName]: { ...dbConfig, storage: -1 } },
+    }
+
+    expect(() => getProjectServices(config, environment)).toThrowValidationError({
+      path: `environments.${environment}.${dbName}.storage`,
+      message: 'The storage must be be between 1 and 100000',
+    })
+  })
+
+  it('raises a validation error when the environment extends one that does not exist', () => {
+    const config = getProjectMock([getAwsDbConfigMock() as ServiceConfiguration])
+    config.environments.staging = {
+      extends: 'qa',
+    } as unknown as (typeof config.environments)[string]
+
+    expect(() => getProjectServices(config, 'staging')).toThrowValidationError({
+      path: 'environments.staging.extends',
+      message: 'extends "qa" which does not exist',
+    })
+
+    let errors: ValidationErrorDescriptor[] = []
+
+    try {
+      getProjectServices(config, 'staging')
+    } catch (err) {
+      if (!(err instanceof ValidationError)) {
+        fail('Failed with a different error type')
+      }
+
+      errors = err.errors
+    }
+
+    expect(errors).toEqual([
+      expect.objectContaining({
+        key: 'extends',
+        value: 'qa',
+        path: 'environments.staging.extends',
+      }),
+    ])
+  })
+
+  it('raises a validation error when environments extend each other', () => {
+    const config = getProjectMock([getAwsDbConfigMock() as ServiceConfiguration])
+    config.environments.staging = {
+      extends: 'qa',
+    } as unknown as (typeof config.environments)[string]
+    config.environments.qa = {
+      extends: 'staging',
+    } as unknown as (typeof config.environments)[string]
+
+    expect(() => getProjectServices(config, 'staging')).toThrowValidationError({
+      path: 'environments.qa.extends',
+      message: 'has a circular inheritance: staging -> qa -> staging',
+    })
+  })
 })
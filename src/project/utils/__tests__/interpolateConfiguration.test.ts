@@ -0,0 +1,81 @@
+import { faker } from '@faker-js/faker'
+import { SERVICE_TYPE } from '@src/constants'
+import { ENVIRONMENT } from '@src/project/constants'
+import { getProjectMock } from '@tests/mocks/project'
+import { interpolateConfiguration } from '@src/project/utils/interpolateConfiguration'
+import type { ServiceConfiguration } from '@src/services/registry'
+
+describe('interpolateConfiguration', () => {
+  const environment = ENVIRONMENT.PRODUCTION
+  const tag = faker.system.semver()
+
+  const getConfig = (attributes: Record<string, string>) =>
+    getProjectMock([{ type: SERVICE_TYPE.APP, name: 'app', ...attributes } as ServiceConfiguration])
+
+  afterEach(() => {
+    delete process.env.IMAGE_TAG
+  })
+
+  it('interpolates environment variables', () => {
+    process.env.IMAGE_TAG = tag
+    const config = getConfig({ image: 'myorg/api:${IMAGE_TAG}' })
+
+    const { environments } = interpolateConfiguration(config, environment)
+    expect(environments[environment].app).toMatchObject({ image: `myorg/api:${tag}` })
+  })
+
+  it('interpolates the environment and project names', () => {
+    const config = getConfig({ domain: '${env}.${project}.example.com' })
+
+    const { environments } = interpolateConfiguration(config, environment)
+    expect(environments[environment].app).toMatchObject({
+      domain: `${environment}.${config.name}.example.com`,
+    })
+  })
+
+  it('interpolates the variables block, overridden by the variables given', () => {
+    const config = {
+      ...getConfig({ image: 'myorg/api:${tag}', domain: '${domain}' }),
+      variables: { tag: 'latest', domain: 'example.com' },
+    }
+
+    const { environments } = interpolateConfiguration(config, environment, { tag })
+    expect(environments[environment].app).toMatchObject({
+      image: `myorg/api:${tag}`,
+      domain: 'example.com',
+    })
+  })
+
+  it('only interpolates the environment that the operation is about', () => {
+    const config = getConfig({ domain: '${env}.example.com' })
+    config.environments.staging = { app: { ...config.environments[environment].app } }
+
+    const { environments } = interpolateConfiguration(config, 'staging')
+    expect(environments.staging.app).toMatchObject({ domain: 'staging.example.com' })
+    expect(environments[environment].app).toMatchObject({ domain: '${env}.example.com' })
+  })
+
+  it('ignores the undefined variables of the other environments', () => {
+    const config = getConfig({ image: 'myorg/api:${IMAGE_TAG}' })
+    config.environments.staging = getConfig({ image: 'nginx' }).environments[environment]
+
+    const { environments } = interpolateConfiguration(config, 'staging')
+    expect(environments.staging.app).toMatchObject({ image: 'nginx' })
+  })
+
+  it('leaves escaped references as-is', () => {
+    const config = getConfig({ image: 'myorg/api:$${IMAGE_TAG}' })
+
+    const { environments } = interpolateConfiguration(config, environment)
+    expect(environments[environment].app).toMatchObject({ image: 'myorg/api:${IMAGE_TAG}' })
+  })
+
+  it('raises a validation error when a variable is not defined', () => {
+    const config = getConfig({ image: 'myorg/api:${IMAGE_TAG}' })
+
+    expect(() => interpolateConfiguration(config, environment)).toThrowValidationError({
+      path: `environments.${environment}.app.image`,
+      message: 'references the variable "IMAGE_TAG" which is not defined',
+    })
+  })
+})
@@ -0,0 +1,70 @@
+import path from 'node:path'
+import { Registry } from '@src/services/registry'
+import { loadPlugins } from '@src/project/utils/loadPlugins'
+import { getProjectServices } from '@src/project/utils/getProjectServices'
+import { getServicesSchema } from '@src/validation/utils/getServicesSchema'
+import { getProjectMock } from '@tests/mocks/project'
+import { getSynthesizedStack } from '@tests/helpers/getSynthesizedStack'
+import { PLUGIN_PROVIDER, PLUGIN_SERVICE_TYPE } from '@tests/mocks/plugin'
+import type { ServiceConfiguration } from '@src/services/registry'
+
+describe('loadPlugins', () => {
+  const mocksDirectory = path.resolve(__dirname, '../../../../tests/mocks')
+
+  beforeAll(() => {
+    loadPlugins(['./plugin'], mocksDirectory)
+  })
+
+  it('registers the services of the plugins', () => {
+    const service = Registry.get(PLUGIN_PROVIDER, PLUGIN_SERVICE_TYPE)
+
+    expect(service.schemaId).toEqual('services-acme-queue')
+    expect(Registry.providers()).toContain(PLUGIN_PROVIDER)
+    expect(Registry.regions(PLUGIN_PROVIDER)).toEqual(['acme-west-1'])
+  })
+
+  it('loads the same plugin more than once', () => {
+    expect(() => loadPlugins(['./plugin'], mocksDirectory)).not.toThrow()
+  })
+
+  it('includes the services of the plugins in the schemas', () => {
+    const { items, $defs = {} } = getServicesSchema()
+
+    expect(items).toMatchObject({
+      properties: {
+        type: { enum: expect.arrayContaining([PLUGIN_SERVICE_TYPE]) },
+        provider: { enum: expect.arrayContaining([PLUGIN_PROVIDER]) },
+      },
+    })
+    expect($defs).toHaveProperty('services-acme-queue')
+  })
+
+  it('deploys the services of the plugins', () => {
+    const config = {
+      name: 'jobs-queue',
+      type: PLUGIN_SERVICE_TYPE,
+      provider: PLUGIN_PROVIDER,
+      region: 'acme-west-1',
+    } as unknown as ServiceConfiguration
+
+    const services = getProjectServices(getProjectMock([config]), 'production')
+    expect(services).toContainEqual(
+      expect.objectContaining({ name: 'jobs-queue', provider: PLUGIN_PROVIDER }),
+    )
+
+    const { output } = JSON.parse(getSynthesizedStack([config]))
+    expect(output).toHaveProperty('acme_queue_acme_west_1_jobs_queue_name')
+  })
+
+  it('throws an error when a plugin cannot be loaded', () => {
+    expect(() => loadPlugins(['./missing-plugin'], mocksDirectory)).toThrow(
+      'The plugin "./missing-plugin" could not be loaded',
+    )
+  })
+
+  it('throws an error when a plugin does not export any services', () => {
+    expect(() => loadPlugins(['./aws'], mocksDirectory)).toThrow(
+      'The plugin "./aws" does not export any services',
+    )
+  })
+})
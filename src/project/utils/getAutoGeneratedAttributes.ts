@@ -41,7 +41,8 @@ const ATTRIBUTE_GENERATOR: Partial<Record<ServiceTypeChoice, AttributesGenerator
       type: SERVICE_TYPE.SSL,
       provider: associated.provider || project.provider || DEFAULT_PROVIDER,
       domain: associated.domain,
-      name: kebabCase(`${associated.name}-ssl-certificate`),
+      name: kebabCase(`${associated.domain}-ssl-certificate`),
+      region: associated.region,
     }
   },
   [SERVICE_TYPE.STATE]: (project) => {
@@ -0,0 +1,96 @@
+import { fromPairs, without } from 'lodash'
+import { PROVIDER, SERVICE_TYPE } from '@src/constants'
+import { ENVIRONMENT } from '@src/project/constants'
+import { getValidData } from '@src/validation'
+import { Registry } from '@src/services/registry'
+import { getProjectSchema } from '@src/project/utils/getProjectSchema'
+import type { Dictionary } from 'lodash'
+import type { BaseService, ProviderChoice, ServiceTypeChoice } from '@src/services/types'
+import type { ProjectConfiguration } from '@src/project/types'
+
+export type ProjectScaffoldService = {
+  type: ServiceTypeChoice
+  attributes?: Dictionary<string>
+}
+
+export type ProjectScaffoldOptions = {
+  name?: string
+  provider: ProviderChoice
+  region?: string
+  state: {
+    provider: ProviderChoice
+    bucket?: string
+    lockTable?: string
+    directory?: string
+  }
+  services: ProjectScaffoldService[]
+}
+
+// These attributes are populated by the project configuration
+const IMPLIED_ATTRIBUTES = ['name', 'type', 'provider', 'region']
+
+// These services are configured by the project itself and not per environment
+const EXCLUDED_SERVICE_TYPES: ServiceTypeChoice[] = [SERVICE_TYPE.STATE, SERVICE_TYPE.PROVIDER]
+
+/**
+ * Returns the attributes that are required for a service, apart from the implied ones
+ *
+ * @param {String} provider the provider for the service
+ * @param {String} type the type of the service
+ * @returns {String[]} the required attributes
+ */
+export const getScaffoldServiceAttributes = (
+  provider: BaseService['provider'],
+  type: BaseService['type'],
+): string[] => {
+  const { schema } = Registry.get(provider, type)
+  return without(schema.required || [], ...IMPLIED_ATTRIBUTES)
+}
+
+/**
+ * Returns the service types that can be scaffolded for a provider.
+ * Only services that have no required attributes or require string values are included
+ *
+ * @param {String} provider the provider to get the service types for
+ * @returns {String[]} the service types available, including the ones provided by plugins
+ */
+export const getScaffoldServiceTypes = (provider: BaseService['provider']): BaseService['type'][] =>
+  without(Registry.types(provider), ...EXCLUDED_SERVICE_TYPES).filter((type) => {
+    const { schema } = Registry.get(provider, type)
+    const properties: Dictionary<{ type?: string }> = schema.properties || {}
+
+    return getScaffoldServiceAttributes(provider, type).every(
+      (attr) => properties[attr]?.type === 'string',
+    )
+  })
+
+/**
+ * Returns a project configuration, given the scaffolding options
+ *
+ * @param {ProjectScaffoldOptions} options the options to scaffold the project with
+ * @returns {ProjectConfiguration} the project configuration
+ * @throws {ValidationError} when the resulting configuration is invalid
+ */
+export const getProjectScaffold = (options: ProjectScaffoldOptions): ProjectConfiguration => {
+  const { name, provider, region, state, services } = options
+  const { provider: stateProvider, bucket, lockTable, directory } = state
+
+  const configuration = {
+    ...(name ? { name } : {}),
+    provider,
+    ...(region ? { region } : {}),
+    state:
+      stateProvider === PROVIDER.LOCAL
+        ? { provider: stateProvider, fileName: 'stackmate.tfstate', directory }
+        : { provider: stateProvider, bucket, lockTable },
+    environments: {
+      [ENVIRONMENT.PRODUCTION]: fromPairs(
+        services.map(({ type, attributes = {} }) => [type, { type, ...attributes }]),
+      ),
+    },
+  } as ProjectConfiguration
+
+  getValidData(configuration, getProjectSchema())
+
+  return configuration
+}
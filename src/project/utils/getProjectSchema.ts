@@ -1,20 +1,22 @@
 import { PROVIDER, SERVICE_TYPE } from '@src/constants'
-import { DEFAULT_REGION, ENVIRONMENT } from '@src/project/constants'
-import { fromPairs, groupBy, merge, omit, toPairs, without } from 'lodash'
+import { DEFAULT_REGION, ENVIRONMENT, ENVIRONMENT_NAME_PATTERN } from '@src/project/constants'
+import { fromPairs, groupBy, merge, omit, toPairs, uniq, without } from 'lodash'
 import { JSON_SCHEMA_DRAFT } from '@src/validation/constants'
 import { getServicesSchema } from '@src/validation/utils/getServicesSchema'
-import { REGIONS } from '@aws/constants'
+import { Registry } from '@src/services/registry'
 import type { ServiceConfiguration } from '@src/services/registry'
 import type { ServiceTypeChoice } from '@src/services/types'
-import type { ProjectConfiguration } from '@src/project/types'
+import type { EnvironmentChoice, ProjectConfiguration } from '@src/project/types'
 import type { JsonSchema } from '@src/lib/schema'
 
 const isSchemaOf = (schema: JsonSchema<any>, ...types: ServiceTypeChoice[]): boolean =>
   types.includes(schema.properties?.type?.const)
 
-export const getProjectSchema = (): JsonSchema<ProjectConfiguration> => {
+export const getProjectSchema = (
+  primaryEnvironment: EnvironmentChoice = ENVIRONMENT.PRODUCTION,
+): JsonSchema<ProjectConfiguration> => {
   const { $defs: serviceDefs = {} } = getServicesSchema()
-  const providers = without(Object.values(PROVIDER), PROVIDER.LOCAL)
+  const providers = without(Registry.providers(), PROVIDER.LOCAL)
 
   // The provider, region and service name are implied in this version of the schema
   const serviceDefinitions: Record<string, JsonSchema<ServiceConfiguration>> = fromPairs(
@@ -86,12 +88,45 @@ export const getProjectSchema = (): JsonSchema<ProjectConfiguration> => {
       },
       region: {
         type: 'string',
-        enum: REGIONS,
+        enum: uniq(providers.flatMap((provider) => Registry.regions(provider))),
         default: DEFAULT_REGION[PROVIDER.AWS],
         description:
           'The region attribute will specify the physical region that the services will be deployed in. Unless specified per-service, all services will use this region',
         documentation: 'https://docs.stackmate.io/configuration/configuration-file/region',
       },
+      primaryEnvironment: {
+        type: 'string',
+        pattern: ENVIRONMENT_NAME_PATTERN,
+        default: ENVIRONMENT.PRODUCTION,
+        description:
+          'The environment that is required to be present in the configuration, usually the one serving the end users',
+        documentation:
+          'https://docs.stackmate.io/configuration/configuration-file/primary-environment',
+      },
+      defaults: {
+        type: 'object',
+        description:
+          'The services that are shared across all environments. Every environment can override them per service and attribute',
+        documentation: 'https://docs.stackmate.io/configuration/configuration-file/defaults',
+        patternProperties: {
+          '^[a-zA-Z0-9_-]+$': { type: 'object' },
+        },
+      },
+      variables: {
+        type: 'object',
+        description:
+          'Values that can be referenced throughout the configuration file, in the form of ${variable}',
+        documentation: 'https://docs.stackmate.io/configuration/configuration-file/variables',
+        additionalProperties: { type: 'string' },
+      },
+      plugins: {
+        type: 'array',
+        uniqueItems: true,
+        items: { type: 'string', minLength: 1 },
+        description:
+          'The npm packages or local modules, relative to the configuration file, that provide additional services',
+        documentation: 'https://docs.stackmate.io/configuration/configuration-file/plugins',
+      },
       state: {
         description:
           'This is the setup for the project‘s state. Terraform will use this to store the state file',
@@ -108,14 +143,17 @@ export const getProjectSchema = (): JsonSchema<ProjectConfiguration> => {
       },
       environments: {
         type: 'object',
-        required: [ENVIRONMENT.PRODUCTION],
+        required: [primaryEnvironment],
         description:
           'The environments property, lists the services that will be deployed, groupped per environment',
         documentation: 'https://docs.stackmate.io/configuration/configuration-file/environments',
-        properties: {
-          ...fromPairs(
-            Object.values(ENVIRONMENT).map((env) => [env, { $ref: '#/$defs/environment' }]),
-          ),
+        propertyNames: {
+          pattern: ENVIRONMENT_NAME_PATTERN,
+          errorMessage:
+            'Environment names should only contain lowercase letters, numbers, dashes and underscores',
+        },
+        patternProperties: {
+          [ENVIRONMENT_NAME_PATTERN]: { $ref: '#/$defs/environment' },
         },
       },
     },
@@ -124,11 +162,20 @@ export const getProjectSchema = (): JsonSchema<ProjectConfiguration> => {
       environment: {
         type: 'object',
         uniqueAppDomains: true,
+        uniqueAppTestPorts: true,
         minProperties: 1,
         description: 'This is the list of services to be deployed for this environment',
         documentation: 'https://docs.stackmate.io/configuration/application-services',
+        properties: {
+          extends: {
+            type: 'string',
+            pattern: ENVIRONMENT_NAME_PATTERN,
+            description:
+              'The environment to inherit the services from. Services declared here override the inherited ones',
+          },
+        },
         patternProperties: {
-          '^[a-zA-Z0-9_-]+$': {
+          '^(?!extends$)[a-zA-Z0-9_-]+$': {
             allOf: serviceDiscriminations,
           },
         },
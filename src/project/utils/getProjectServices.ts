@@ -1,45 +1,171 @@
 import { DEFAULT_PROVIDER, DEFAULT_REGION } from '@src/project/constants'
-import { cloneDeep, defaultsDeep, fromPairs, get, isEmpty, isFunction, merge } from 'lodash'
+import {
+  cloneDeep,
+  defaultsDeep,
+  fromPairs,
+  get,
+  has,
+  isArray,
+  isEmpty,
+  isFunction,
+  merge,
+  mergeWith,
+  omit,
+} from 'lodash'
+import { ValidationError } from '@src/lib/errors'
 import { getValidData } from '@src/validation'
+import { parseErrors } from '@src/validation/utils/parseErrors'
 import { getProjectSchema } from '@src/project/utils/getProjectSchema'
 import { SERVICE_TYPE, isDebugMode } from '@src/constants'
 import { Registry, type ServiceConfiguration } from '@src/services/registry'
-import type { BaseServiceAttributes } from '@src/services/types'
-import type { EnvironmentChoice, ProjectConfiguration } from '@src/project/types'
+import type { BaseServiceAttributes, ProviderChoice } from '@src/services/types'
+import type { Obj } from '@lib/util'
+import type {
+  EnvironmentChoice,
+  ProjectConfiguration,
+  ServiceDeclaration,
+} from '@src/project/types'
 import { getAutoGeneratedAttributes } from './getAutoGeneratedAttributes'
+import { interpolateConfiguration, type InterpolationVariables } from './interpolateConfiguration'
 
 export type AttributesGenerator = (
   project: ProjectConfiguration,
   associated?: BaseServiceAttributes,
 ) => ServiceConfiguration
 
-const normalizeProject = (project: ProjectConfiguration): ProjectConfiguration =>
-  defaultsDeep(cloneDeep(project), {
-    provider: DEFAULT_PROVIDER,
-    state: { type: SERVICE_TYPE.STATE, provider: project.provider || DEFAULT_PROVIDER },
-    environments: fromPairs(
-      Object.entries(project.environments).map(([env, services]) => [
-        env,
-        fromPairs(
-          Object.entries(services || {}).map(([name, service]) => [
-            name,
-            defaultsDeep(cloneDeep(service), {
-              provider: project.provider || DEFAULT_PROVIDER,
-              region: project.region || DEFAULT_REGION[project.provider || DEFAULT_PROVIDER],
-            }) as ServiceConfiguration,
-          ]),
-        ),
-      ]),
+const overrideArrays = (_: unknown, source: unknown) => (isArray(source) ? source : undefined)
+
+/**
+ * @param {ProjectConfiguration} project the project configuration
+ * @param {EnvironmentChoice} environment the environment that cannot be resolved
+ * @param {EnvironmentChoice} parent the environment it extends
+ * @param {String} message the error message
+ * @returns {ValidationError} the error to raise for the environment's inheritance
+ */
+const getInheritanceError = (
+  project: ProjectConfiguration,
+  environment: EnvironmentChoice,
+  parent: EnvironmentChoice,
+  message: string,
+): ValidationError =>
+  new ValidationError(
+    `The "${environment}" environment cannot be resolved`,
+    parseErrors(
+      [
+        {
+          keyword: 'extends',
+          instancePath: `/environments/${environment}/extends`,
+          schemaPath: '#/$defs/environment/properties/extends',
+          params: { extends: parent },
+          message,
+        },
+      ],
+      project,
     ),
-  })
+  )
+
+/**
+ * Resolves the services of an environment, by applying the project defaults,
+ * then the services of the environment it extends and finally its own services
+ *
+ * @param {ProjectConfiguration} project the project configuration
+ * @param {EnvironmentChoice} environment the environment to resolve
+ * @param {EnvironmentChoice[]} descendants the environments that extend the current one
+ * @returns {Record<string, ServiceDeclaration>} the effective services for the environment
+ */
+const resolveEnvironment = (
+  project: ProjectConfiguration,
+  environment: EnvironmentChoice,
+  descendants: EnvironmentChoice[] = [],
+): Record<string, ServiceDeclaration> => {
+  const { extends: parent, ...services } = (project.environments[environment] || {}) as Obj
+
+  if (!parent) {
+    return mergeWith({}, project.defaults, services, overrideArrays)
+  }
+
+  const chain = [...descendants, environment]
+
+  if (!has(project.environments, parent)) {
+    throw getInheritanceError(
+      project,
+      environment,
+      parent,
+      `extends "${parent}" which does not exist`,
+    )
+  }
+
+  if (chain.includes(parent)) {
+    throw getInheritanceError(
+      project,
+      environment,
+      parent,
+      `has a circular inheritance: ${[...chain, parent].join(' -> ')}`,
+    )
+  }
+
+  return mergeWith({}, resolveEnvironment(project, parent, chain), services, overrideArrays)
+}
+
+/**
+ * Returns the region to provision a service in when it does not specify one.
+ * Services that are only available in a single region (eg. CDNs) are provisioned there
+ *
+ * @param {ServiceDeclaration} config the service's configuration
+ * @param {ProviderChoice} provider the service's provider
+ * @param {String} projectRegion the region of the project
+ * @returns {String|undefined} the region to provision the service in
+ */
+const getDefaultRegion = (
+  { type }: ServiceDeclaration,
+  provider: ProviderChoice,
+  projectRegion?: string,
+): string | undefined => {
+  const service = Registry.all().find((srv) => srv.provider === provider && srv.type === type)
+  const regions = service?.regions || []
+
+  return regions.length === 1 ? regions[0] : projectRegion
+}
+
+const normalizeProject = (project: ProjectConfiguration): ProjectConfiguration =>
+  defaultsDeep(
+    {
+      ...cloneDeep(omit(project, 'defaults')),
+      environments: fromPairs(
+        Object.keys(project.environments || {}).map((env) => [
+          env,
+          fromPairs(
+            Object.entries(resolveEnvironment(project, env)).map(([name, service]) => [
+              name,
+              defaultsDeep(cloneDeep(service), {
+                provider: project.provider || DEFAULT_PROVIDER,
+                region: getDefaultRegion(
+                  service,
+                  service.provider || project.provider || DEFAULT_PROVIDER,
+                  project.region || DEFAULT_REGION[project.provider || DEFAULT_PROVIDER],
+                ),
+              }) as ServiceConfiguration,
+            ]),
+          ),
+        ]),
+      ),
+    },
+    {
+      provider: DEFAULT_PROVIDER,
+      state: { type: SERVICE_TYPE.STATE, provider: project.provider || DEFAULT_PROVIDER },
+    },
+  )
 
 export const getProjectServices = (
   raw: ProjectConfiguration,
   environment: EnvironmentChoice,
+  variables: InterpolationVariables = {},
 ): ServiceConfiguration[] => {
-  const project = getValidData(normalizeProject(raw), getProjectSchema(), {
-    useDefaults: true,
-  })
+  const project = getValidData(
+    interpolateConfiguration(normalizeProject(raw), environment, variables),
+    getProjectSchema(raw.primaryEnvironment),
+    { useDefaults: true },
+  )
 
   const projectProvider = project.provider || DEFAULT_PROVIDER
   const projectRegion = project.region || DEFAULT_REGION[projectProvider]
@@ -47,7 +173,7 @@ export const getProjectServices = (
 
   if (isEmpty(environmentConfig)) {
     throw new Error(
-      `There are no services registered for the "${environment}" environment, or it does not exist in the configuration`,
+      `There are no services registered for the "${environment}" environment, or it does not exist in the configuration. Available environments are: ${Object.keys(project.environments).join(', ')}`,
     )
   }
 
@@ -56,7 +182,8 @@ export const getProjectServices = (
     ...config,
     name: serviceName,
     provider: config.provider || projectProvider,
-    region: config.region || projectRegion,
+    region:
+      config.region || getDefaultRegion(config, config.provider || projectProvider, projectRegion),
   }))
 
   // Populate the service list, starting with the state service (which is required)
@@ -83,9 +210,13 @@ export const getProjectServices = (
       }
 
       // if the service associated is already added to the list of services, there's nothing to do
+      // services without a region (eg. DNS zones) are global and can be shared across regions
       if (
         services.some(
-          (srv) => srv.type === requiredServiceType && srv.region === serviceConfig.region,
+          (srv) =>
+            srv.type === requiredServiceType &&
+            (!srv.region || srv.region === serviceConfig.region) &&
+            (!isFunction(associationLookup) || associationLookup(serviceConfig, srv)),
         )
       ) {
         return
@@ -105,7 +236,11 @@ export const getProjectServices = (
         serviceConfig,
       )
 
-      if (!generated) {
+      // The association doesn't apply to the generated service (eg. it's not enabled for the service)
+      if (
+        !generated ||
+        (isFunction(associationLookup) && !associationLookup(serviceConfig, generated))
+      ) {
         return
       }
 
@@ -124,5 +259,20 @@ export const getProjectServices = (
     }
   }
 
+  // Workers run in the private subnets and reach the internet through a NAT gateway,
+  // which the networking that is generated for their region enables
+  const workerRegions = serviceConfigurations
+    .filter((srv) => srv.type === SERVICE_TYPE.APP && 'worker' in srv && srv.worker)
+    .map(({ region }) => region)
+
+  services
+    .filter(
+      (srv) =>
+        srv.type === SERVICE_TYPE.NETWORKING &&
+        !serviceConfigurations.some((declared) => declared === srv) &&
+        workerRegions.includes(srv.region),
+    )
+    .forEach((srv) => Object.assign(srv, { nat: true }))
+
   return services
 }
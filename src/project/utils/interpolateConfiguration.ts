@@ -0,0 +1,112 @@
+import { has, isArray, isPlainObject, isString, isUndefined, mapValues, omitBy } from 'lodash'
+import { ValidationError } from '@src/lib/errors'
+import type { ValidationErrorDescriptor } from '@src/lib/errors'
+import type { EnvironmentChoice, ProjectConfiguration } from '@src/project/types'
+
+export type InterpolationVariables = Record<string, string>
+
+// Matches references like ${IMAGE_TAG}, escaped references like $${IMAGE_TAG} are left as-is
+const VARIABLE_REFERENCE = /\$?\$\{\s*([a-zA-Z_][a-zA-Z0-9_.-]*)\s*\}/g
+
+/**
+ * Replaces the variable references in a value of the configuration, recursively
+ *
+ * @param {any} value the value to interpolate
+ * @param {InterpolationVariables} variables the variables available to the value
+ * @param {String[]} path the path of the value in the configuration
+ * @param {ValidationErrorDescriptor[]} errors the list to collect the unresolved references to
+ * @param {any} parent the object or array that contains the value
+ * @returns {any} the interpolated value
+ */
+const interpolateValue = (
+  value: unknown,
+  variables: InterpolationVariables,
+  path: string[],
+  errors: ValidationErrorDescriptor[],
+  parent: unknown = {},
+): unknown => {
+  if (isString(value)) {
+    return value.replace(VARIABLE_REFERENCE, (match: string, name: string) => {
+      if (match.startsWith('$$')) {
+        return match.slice(1)
+      }
+
+      if (!has(variables, name)) {
+        errors.push({
+          key: path[path.length - 1],
+          value,
+          path: path.join('.'),
+          message: `references the variable "${name}" which is not defined`,
+          parent,
+        })
+
+        return match
+      }
+
+      return String(variables[name])
+    })
+  }
+
+  if (isArray(value)) {
+    return value.map((item, idx) =>
+      interpolateValue(item, variables, [...path, String(idx)], errors, value),
+    )
+  }
+
+  if (isPlainObject(value)) {
+    return mapValues(value as object, (item, key) =>
+      interpolateValue(item, variables, [...path, key], errors, value),
+    )
+  }
+
+  return value
+}
+
+/**
+ * Interpolates the variable references in the project's configuration.
+ *
+ * References are resolved against (in order of precedence) the current environment's name (`env`),
+ * the project's name (`project`), the variables given, the `variables` block of the configuration
+ * and the environment variables of the process. The services of other environments are left as-is.
+ *
+ * @param {ProjectConfiguration} project the project configuration
+ * @param {EnvironmentChoice} environment the environment that the operation is about
+ * @param {InterpolationVariables} variables the variables given, usually in the command line
+ * @returns {ProjectConfiguration} the interpolated project configuration
+ * @throws {ValidationError} when the configuration references variables that are not defined
+ */
+export const interpolateConfiguration = (
+  project: ProjectConfiguration,
+  environment: EnvironmentChoice,
+  variables: InterpolationVariables = {},
+): ProjectConfiguration => {
+  const errors: ValidationErrorDescriptor[] = []
+  const scope = omitBy(
+    {
+      ...process.env,
+      ...project.variables,
+      ...variables,
+      project: project.name,
+      env: environment,
+    },
+    isUndefined,
+  ) as InterpolationVariables
+
+  // Only the environment being operated on is interpolated, since the variables
+  // of the other environments are not necessarily available (eg. in CI)
+  const { environments = {}, ...attributes } = project
+  const interpolated = {
+    ...(interpolateValue(attributes, scope, [], errors) as object),
+    environments: mapValues(environments, (services, env) =>
+      env === environment
+        ? interpolateValue(services, scope, ['environments', env], errors, environments)
+        : services,
+    ),
+  } as ProjectConfiguration
+
+  if (errors.length) {
+    throw new ValidationError('The configuration references variables that are not defined', errors)
+  }
+
+  return interpolated
+}
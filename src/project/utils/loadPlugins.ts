@@ -0,0 +1,52 @@
+import path from 'node:path'
+import { isArray } from 'lodash'
+import { Registry } from '@src/services/registry'
+import type { BaseService } from '@src/services/types'
+
+export type StackmatePlugin = {
+  services: BaseService[]
+}
+
+/**
+ * @param {String} plugin the plugin's package name or path
+ * @param {String} directory the directory to resolve the plugin from
+ * @returns {String} the path of the plugin's module
+ */
+const resolvePlugin = (plugin: string, directory: string): string => {
+  // Local modules are relative to the configuration, packages are installed in the project
+  if (plugin.startsWith('.') || path.isAbsolute(plugin)) {
+    return path.resolve(directory, plugin)
+  }
+
+  return require.resolve(plugin, { paths: [directory] })
+}
+
+/**
+ * Loads the plugins declared in a project's configuration and registers their services.
+ * Plugins are npm packages or local modules that export the services they provide,
+ * either as a `services` export or as the `services` of their default export
+ *
+ * @param {String[]} plugins the package names or paths of the plugins to load
+ * @param {String} directory the directory to resolve the plugins from
+ * @throws {Error} if a plugin cannot be loaded or provides no services
+ */
+export const loadPlugins = (plugins: string[], directory: string = process.cwd()) => {
+  plugins.forEach((plugin) => {
+    let exported: Partial<StackmatePlugin> & { default?: Partial<StackmatePlugin> }
+
+    try {
+      // eslint-disable-next-line global-require,import/no-dynamic-require
+      exported = require(resolvePlugin(plugin, directory))
+    } catch (err) {
+      throw new Error(`The plugin "${plugin}" could not be loaded: ${(err as Error).message}`)
+    }
+
+    const services = exported.services || exported.default?.services
+
+    if (!isArray(services) || !services.length) {
+      throw new Error(`The plugin "${plugin}" does not export any services`)
+    }
+
+    Registry.register(...services)
+  })
+}
@@ -1,6 +1,9 @@
 import { Registry } from '@services/registry'
 import { REGIONS as AWS_REGIONS } from '@aws/constants'
 import { PROVIDER, SERVICE_TYPE } from '@src/constants'
+import { getBaseService } from '@src/services/utils'
+import { AwsMySQL } from '@aws/services/database'
+import type { BaseService } from '@services/types'
 
 describe('Registry', () => {
   describe('all', () => {
@@ -63,4 +66,25 @@ describe('Registry', () => {
       expect(Registry.types(PROVIDER.LOCAL)).toEqual(expect.arrayContaining([SERVICE_TYPE.STATE]))
     })
   })
+  describe('register', () => {
+    it('registers additional services', () => {
+      const service: BaseService = {
+        ...getBaseService(PROVIDER.AWS, SERVICE_TYPE.MYSQL),
+        provider: 'acme',
+        type: 'search',
+      }
+      Registry.register(service)
+
+      expect(Registry.get('acme', 'search')).toBe(service)
+      expect(Registry.types('acme')).toEqual(['search'])
+    })
+
+    it('throws an error when a service is already registered for the provider and type', () => {
+      expect(() => Registry.register(getBaseService(PROVIDER.AWS, SERVICE_TYPE.MYSQL))).toThrow(
+        'A mysql service for provider aws is already registered',
+      )
+
+      expect(() => Registry.register(AwsMySQL)).not.toThrow()
+    })
+  })
 })
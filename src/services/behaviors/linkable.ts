@@ -44,12 +44,10 @@ export type ExternallyLinkableProvisionable = BaseProvisionable<
 export type ServiceLinkHandler = AssociationHandler<ProvisionResources, LinkableProvisionable>
 
 /**
- * @type {ExternalLinkHandler} the function that handles external linking
+ * @type {ExternalLinkHandler} the function that handles external linking, which receives the
+ * provider the links are associated with and the externally linkable service as the linked one
  */
-export type ExternalLinkHandler = AssociationHandler<
-  ProvisionResources,
-  ExternallyLinkableProvisionable
->
+export type ExternalLinkHandler = AssociationHandler<ProvisionResources>
 
 /**
  * @type {LinkableAssociations} associations for services that are linkable
@@ -139,8 +137,13 @@ export const externallyLinkable =
           sideEffect: true,
           handler: onExternalLink,
           with: SERVICE_TYPE.PROVIDER,
-          where: (config: C & ExternallyLinkableAttributes): boolean =>
-            !isEmpty(config.externalLinks),
+          where: (
+            config: C & ExternallyLinkableAttributes,
+            linkedConfig: BaseServiceAttributes,
+          ): boolean =>
+            !isEmpty(config.externalLinks) &&
+            config.provider === linkedConfig.provider &&
+            (!config.region || config.region === linkedConfig.region),
         },
       }),
     )(srv)
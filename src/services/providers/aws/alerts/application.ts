@@ -3,7 +3,7 @@ Credits;
 https://github.com/cloudposse/terraform-aws-ecs-cloudwatch-sns-alarms/blob/main/main.tf
 */
 import { cloudwatchMetricAlarm } from '@cdktf/provider-aws'
-import { snakeCase } from 'lodash'
+import { clamp, snakeCase } from 'lodash'
 import type { Stack } from '@src/lib/stack'
 import type { AwsServiceAlertsGenerator } from '@aws/utils/withAlerts'
 import type { AwsAlertPrerequisites, AwsServiceAlertResources } from '@aws/types'
@@ -33,6 +33,47 @@ export const thresholds: ApplicationMonitoringThresholds = {
   highMemoryUtilization: 80,
 }
 
+// How far from the autoscaling targets the utilization alarms go off, in percentage points
+export const AUTOSCALING_THRESHOLD_MARGIN = 10
+
+/**
+ * Returns the utilization thresholds of the application's alarms. When the service scales on CPU
+ * or memory, the thresholds are moved around the scaling targets, so that the alarms only go off
+ * when the scaling policies can no longer keep the utilization close to the target
+ *
+ * @param {AwsApplicationProvisionable['config']} config the application's configuration
+ * @returns {ApplicationMonitoringThresholds} the thresholds to use
+ */
+export const getThresholds = ({
+  autoscaling,
+}: AwsApplicationProvisionable['config']): ApplicationMonitoringThresholds => {
+  const around = (target: number | undefined, low: number, high: number) =>
+    target === undefined
+      ? { low, high }
+      : {
+          low: clamp(target - AUTOSCALING_THRESHOLD_MARGIN, 0, low),
+          high: clamp(target + AUTOSCALING_THRESHOLD_MARGIN, high, 100),
+        }
+
+  const cpu = around(
+    autoscaling?.cpuTarget,
+    thresholds.lowCpuUtilization,
+    thresholds.highCpuUtilization,
+  )
+  const memory = around(
+    autoscaling?.memoryTarget,
+    thresholds.lowMemoryUtilization,
+    thresholds.highMemoryUtilization,
+  )
+
+  return {
+    lowCpuUtilization: cpu.low,
+    highCpuUtilization: cpu.high,
+    lowMemoryUtilization: memory.low,
+    highMemoryUtilization: memory.high,
+  }
+}
+
 export const awsApplicationServiceAlarms: AwsServiceAlertsGenerator = (
   provisionable: AwsApplicationProvisionable,
   stack: Stack,
@@ -41,9 +82,10 @@ export const awsApplicationServiceAlarms: AwsServiceAlertsGenerator = (
 ): AwsServiceAlertResources => {
   const { topic } = prerequisites
   const { service } = resources
-  const {
-    config: { name: serviceName },
-  } = provisionable
+  const { config } = provisionable
+  const { name: serviceName } = config
+  const { lowCpuUtilization, highCpuUtilization, lowMemoryUtilization, highMemoryUtilization } =
+    getThresholds(config)
 
   const opts: Omit<
     cloudwatchMetricAlarm.CloudwatchMetricAlarmConfig,
@@ -68,10 +110,8 @@ export const awsApplicationServiceAlarms: AwsServiceAlertsGenerator = (
       alarmName: snakeCase(cpuUtilizationLowId),
       comparisonOperator: 'LessThanThreshold',
       metricName: 'CPUUtilization',
-      threshold: thresholds.lowCpuUtilization,
-      alarmDescription: `Average service CPU utilization less than ${
-        thresholds.lowCpuUtilization
-      }% for the last ${options.period / 60} minute(s)`,
+      threshold: lowCpuUtilization,
+      alarmDescription: `Average service CPU utilization less than ${lowCpuUtilization}% for the last ${options.period / 60} minute(s)`,
       ...opts,
     },
   )
@@ -82,12 +122,10 @@ export const awsApplicationServiceAlarms: AwsServiceAlertsGenerator = (
     cpuUtilizationHighId,
     {
       alarmName: snakeCase(cpuUtilizationHighId),
-      alarmDescription: `Average service CPU utilization over ${
-        thresholds.highCpuUtilization
-      }% for the last ${options.period / 60} minute(s)`,
+      alarmDescription: `Average service CPU utilization over ${highCpuUtilization}% for the last ${options.period / 60} minute(s)`,
       comparisonOperator: 'GreaterThanThreshold',
       metricName: 'CPUUtilization',
-      threshold: thresholds.highCpuUtilization,
+      threshold: highCpuUtilization,
       ...opts,
     },
   )
@@ -100,10 +138,8 @@ export const awsApplicationServiceAlarms: AwsServiceAlertsGenerator = (
       alarmName: snakeCase(memoryUtilizationLowId),
       comparisonOperator: 'LessThanThreshold',
       metricName: 'MemoryUtilization',
-      threshold: thresholds.lowMemoryUtilization,
-      alarmDescription: `Average service Memory utilization less than ${
-        thresholds.lowMemoryUtilization
-      }% for the last ${options.period / 60} minute(s)`,
+      threshold: lowMemoryUtilization,
+      alarmDescription: `Average service Memory utilization less than ${lowMemoryUtilization}% for the last ${options.period / 60} minute(s)`,
       ...opts,
     },
   )
@@ -116,10 +152,8 @@ export const awsApplicationServiceAlarms: AwsServiceAlertsGenerator = (
       alarmName: snakeCase(memoryUtilizationHighId),
       comparisonOperator: 'GreaterThanThreshold',
       metricName: 'MemoryUtilization',
-      threshold: thresholds.highMemoryUtilization,
-      alarmDescription: `Average service Memory utilization over ${
-        thresholds.highCpuUtilization
-      }% for the last ${options.period / 60} minute(s)`,
+      threshold: highMemoryUtilization,
+      alarmDescription: `Average service Memory utilization over ${highMemoryUtilization}% for the last ${options.period / 60} minute(s)`,
       ...opts,
     },
   )
@@ -1,12 +1,22 @@
 import path from 'node:path'
 import { SERVICE_TYPE } from '@src/constants'
 import { readJsonFile } from '@src/lib/file'
-import type { AwsDbServiceType, RdsEngine, AwsServiceConstraints } from './types'
+import type {
+  AwsDbServiceType,
+  RdsEngine,
+  AwsServiceConstraints,
+  Ec2AmiFilter,
+  Ec2OperatingSystem,
+} from './types'
 
 export const DEFAULT_VPC_IP = '10.0.0.0' as const
 export const DEFAULT_RDS_INSTANCE_SIZE = 'db.t3.micro' as const
 export const DEFAULT_ELASTICACHE_INSTANCE_SIZE = 'cache.t4g.micro' as const
 export const DEFAULT_RDS_ENGINE = 'mysql' as const
+export const DEFAULT_EC2_INSTANCE_SIZE = 't3.micro' as const
+export const DEFAULT_EC2_OPERATING_SYSTEM = 'amazon-linux-2023' as const
+// CloudFront only accepts certificates issued in us-east-1
+export const CDN_REGION = 'us-east-1' as const
 
 export const REGIONS = readJsonFile<string[]>(path.join(__dirname, 'regions.json'))
 export const CONSTRAINTS = readJsonFile<AwsServiceConstraints>(
@@ -24,3 +34,38 @@ export const RDS_LOG_EXPORTS_PER_ENGINE: Record<RdsEngine, string[]> = {
   mysql: ['audit', 'error', 'general', 'slowquery'],
   postgres: ['postgresql', 'upgrade'],
 } as const
+
+export const EC2_INSTANCE_SIZES = [
+  't3.nano',
+  't3.micro',
+  't3.small',
+  't3.medium',
+  't3.large',
+  't3.xlarge',
+  't3.2xlarge',
+  'm5.large',
+  'm5.xlarge',
+  'm5.2xlarge',
+  'm5.4xlarge',
+  'c5.large',
+  'c5.xlarge',
+  'c5.2xlarge',
+  'c5.4xlarge',
+  'r5.large',
+  'r5.xlarge',
+  'r5.2xlarge',
+] as const
+
+// The owner and name pattern of the latest x86_64 AMI for every operating system we support
+export const EC2_AMI_FILTERS: Record<Ec2OperatingSystem, Ec2AmiFilter> = {
+  'amazon-linux-2023': { owner: 'amazon', name: 'al2023-ami-2023.*-x86_64' },
+  'ubuntu-22.04': {
+    owner: '099720109477',
+    name: 'ubuntu/images/hvm-ssd/ubuntu-jammy-22.04-amd64-server-*',
+  },
+  'ubuntu-24.04': {
+    owner: '099720109477',
+    name: 'ubuntu/images/hvm-ssd-gp3/ubuntu-noble-24.04-amd64-server-*',
+  },
+  'debian-12': { owner: '136693071363', name: 'debian-12-amd64-*' },
+} as const
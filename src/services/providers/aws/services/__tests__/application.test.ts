@@ -3,17 +3,33 @@ import { PROVIDER, SERVICE_TYPE } from '@src/constants'
 import { Registry } from '@src/services/registry'
 import { REGIONS } from '@aws/constants'
 import { faker } from '@faker-js/faker'
+import { kebabCase, omit, pick, snakeCase } from 'lodash'
+import { ENVIRONMENT } from '@src/project/constants'
 import { getValidData } from '@src/validation'
-import { getAwsAppConfigMock } from '@tests/mocks/aws'
+import { getAwsAppConfigMock, getAwsCacheConfigMock, getAwsDbConfigMock } from '@tests/mocks/aws'
 import { getSynthesizedStack } from '@tests/helpers/getSynthesizedStack'
 import {
+  acmCertificate,
   albListener,
+  albListenerCertificate,
+  albListenerRule,
+  appautoscalingPolicy,
+  appautoscalingTarget,
+  cloudwatchEventRule,
+  cloudwatchEventTarget,
+  codedeployDeploymentGroup,
   cloudwatchMetricAlarm,
+  dataAwsIamPolicyDocument,
   ecsService,
   ecsTaskDefinition,
+  albTargetGroup,
+  iamRolePolicyAttachment,
+  natGateway,
   route53Record,
+  securityGroup,
 } from '@cdktf/provider-aws'
 import type { AwsApplicationAttributes } from '@aws/services/application'
+import type { ServiceConfiguration } from '@src/services/registry'
 
 describe('Application Service', () => {
   const service = AwsApplication
@@ -94,6 +110,7 @@ describe('Application Service', () => {
 
       expect(stack).toHaveResourceWithProperties(ecsTaskDefinition.EcsTaskDefinition, {
         requires_compatibilities: ['FARGATE'],
+        family: kebabCase(`${config.name}-${ENVIRONMENT.PRODUCTION}`),
       })
 
       expect(stack).toHaveResourceWithProperties(albListener.AlbListener, {
@@ -148,6 +165,126 @@ describe('Application Service', () => {
       })
     })
 
+    it('routes the requests to the application by host', () => {
+      const config = {
+        ...getAwsAppConfigMock(),
+        port: faker.internet.port(),
+        domain: 'example.com',
+      }
+      const stack = getSynthesizedStack([config])
+
+      expect(stack).toHaveResourceWithProperties(albListenerRule.AlbListenerRule, {
+        action: [expect.objectContaining({ type: 'forward' })],
+        condition: [{ host_header: { values: ['example.com', 'www.example.com'] } }],
+      })
+      expect(stack).toHaveResourceWithProperties(albListener.AlbListener, {
+        port: 443,
+        default_action: [expect.objectContaining({ type: 'fixed-response' })],
+      })
+    })
+
+    it('shares the load balancer among the applications', () => {
+      const api = {
+        ...getAwsAppConfigMock(),
+        name: 'api',
+        port: 8080,
+        domain: 'example.com',
+        path: '/api',
+      }
+      const web = { ...getAwsAppConfigMock(), name: 'web', port: 3000, domain: 'example.com' }
+      const admin = {
+        ...getAwsAppConfigMock(),
+        name: 'admin',
+        port: 3000,
+        domain: 'admin.example.com',
+      }
+
+      const stack = getSynthesizedStack([web, api, admin])
+      const { resource } = JSON.parse(stack)
+      const listeners = Object.values(resource[albListener.AlbListener.tfResourceType])
+      const rules = Object.values(resource[albListenerRule.AlbListenerRule.tfResourceType]) as {
+        priority: number
+        condition: object[]
+      }[]
+
+      expect(listeners).toHaveLength(2)
+      expect(stack).toHaveResource(albListenerCertificate.AlbListenerCertificate)
+      expect(new Set(rules.map((rule) => rule.priority)).size).toEqual(3)
+
+      const apiRule = rules.find(({ condition }) => condition.length === 2)
+      const webRule = rules.find(({ condition }) =>
+        JSON.stringify(condition).includes('www.example.com'),
+      )
+
+      expect(apiRule?.condition).toContainEqual({ path_pattern: { values: ['/api', '/api/*'] } })
+      expect(apiRule?.priority).toBeLessThan(webRule?.priority as number)
+
+      // Priorities don't depend on the order the applications are declared in
+      const reordered = JSON.parse(getSynthesizedStack([api, admin, web])).resource
+      expect(Object.values(reordered[albListenerRule.AlbListenerRule.tfResourceType])).toEqual(
+        expect.arrayContaining(
+          rules.map((rule) => expect.objectContaining(pick(rule, 'priority', 'condition'))),
+        ),
+      )
+    })
+
+    it('does not depend on the declaration order for the colliding routes and the certificates', () => {
+      // The routes of both applications hash to the same listener rule priority
+      const first = {
+        ...getAwsAppConfigMock(),
+        name: 'first',
+        port: 3000,
+        domain: 'app35.example.com',
+      }
+      const second = {
+        ...getAwsAppConfigMock(),
+        name: 'second',
+        port: 3000,
+        domain: 'app66.example.com',
+      }
+
+      const synthesize = (configs: ServiceConfiguration[]) => {
+        const { resource } = JSON.parse(getSynthesizedStack(configs))
+        return pick(resource, [
+          albListenerRule.AlbListenerRule.tfResourceType,
+          albListener.AlbListener.tfResourceType,
+        ])
+      }
+
+      const resources = synthesize([first, second])
+      const rules = Object.values(resources[albListenerRule.AlbListenerRule.tfResourceType]) as {
+        priority: number
+      }[]
+
+      expect(new Set(rules.map(({ priority }) => priority)).size).toEqual(2)
+      expect(synthesize([second, first])).toEqual(resources)
+    })
+
+    it('registers the DNS records and the certificate of a shared domain once', () => {
+      const web = { ...getAwsAppConfigMock(), name: 'web', port: 3000, domain: 'example.com' }
+      const api = { ...web, name: 'api', port: 8080, path: '/api' }
+
+      const { resource } = JSON.parse(getSynthesizedStack([web, api]))
+      const records = Object.values(resource[route53Record.Route53Record.tfResourceType])
+
+      expect(records).toEqual([
+        expect.objectContaining({ name: 'example.com', type: 'A' }),
+        expect.objectContaining({ name: 'www.example.com', type: 'CNAME' }),
+      ])
+      expect(Object.keys(resource[acmCertificate.AcmCertificate.tfResourceType])).toHaveLength(1)
+    })
+
+    it('requires a port to route requests by path', () => {
+      const config = { ...omit(getAwsAppConfigMock(), 'port'), path: '/api' }
+
+      expect(() => getValidData(config, service.schema)).toThrowValidationError(
+        'Only applications with a port can be routed to by path',
+      )
+      expect(() =>
+        getValidData({ ...config, port: 3000, path: '/api/' }, service.schema),
+      ).toThrowValidationError('The path should start with a slash and not end with one, eg. /api')
+    })
+
     it('registers the resources - service without a port defined', () => {
       const config = { ...getAwsAppConfigMock(), port: undefined }
       const stack = getSynthesizedStack([config])
@@ -163,5 +300,618 @@ describe('Application Service', () => {
       expect(stack).not.toHaveResource(albListener.AlbListener)
       expect(stack).not.toHaveResource(route53Record.Route53Record)
     })
+
+    it('registers the environment variables and secrets in the container definition', () => {
+      const secretArn = `arn:aws:secretsmanager:eu-central-1:123456789012:secret:${faker.lorem.word()}`
+      const parameterArn = `arn:aws:ssm:eu-central-1:123456789012:parameter/${faker.lorem.word()}`
+      const config = {
+        ...getAwsAppConfigMock(),
+        environment: { NODE_ENV: 'production' },
+        secrets: { DATABASE_PASSWORD: `${secretArn}:password::`, API_KEY: parameterArn },
+      }
+
+      const stack = getSynthesizedStack([config])
+      const { resource } = JSON.parse(stack)
+      const [taskDefinition] = Object.values(
+        resource[ecsTaskDefinition.EcsTaskDefinition.tfResourceType],
+      ) as { container_definitions: string }[]
+
+      expect(taskDefinition.container_definitions).toContain(
+        '"environment" = [{"name" = "NODE_ENV", "value" = "production"}]',
+      )
+
+      expect(taskDefinition.container_definitions).toContain(
+        `{"name" = "DATABASE_PASSWORD", "valueFrom" = "${secretArn}:password::"}`,
+      )
+
+      expect(stack).toHaveResource(iamRolePolicyAttachment.IamRolePolicyAttachment)
+      expect(stack).toHaveDataSourceWithProperties(
+        dataAwsIamPolicyDocument.DataAwsIamPolicyDocument,
+        {
+          statement: expect.arrayContaining([
+            expect.objectContaining({
+              actions: ['secretsmanager:GetSecretValue'],
+              resources: [secretArn],
+            }),
+            expect.objectContaining({
+              actions: ['ssm:GetParameters'],
+              resources: [parameterArn],
+            }),
+          ]),
+        },
+      )
+    })
+
+    it('does not grant access to secrets when there are none', () => {
+      const stack = getSynthesizedStack([getAwsAppConfigMock()])
+      expect(stack).not.toHaveResource(iamRolePolicyAttachment.IamRolePolicyAttachment)
+    })
+
+    it('requires the secrets to reference an ARN', () => {
+      const config = { ...getAwsAppConfigMock(), secrets: { API_KEY: 'plaintext' } }
+
+      expect(() => getValidData(config, service.schema)).toThrowValidationError(
+        'Secrets should reference a Secrets Manager or SSM parameter ARN',
+      )
+    })
+
+    it('exposes the connection details of the linked services', () => {
+      const dbConfig = { ...getAwsDbConfigMock(), database: 'app_db' } as ServiceConfiguration
+      const cacheConfig = { ...getAwsCacheConfigMock('redis', 'redis', false), name: 'sessions' }
+      const config = { ...getAwsAppConfigMock(), links: [dbConfig.name, cacheConfig.name] }
+      const dbPrefix = snakeCase(dbConfig.name).toUpperCase()
+
+      const stack = getSynthesizedStack([config, dbConfig, cacheConfig])
+      const { resource } = JSON.parse(stack)
+      const [taskDefinition] = Object.values(
+        resource[ecsTaskDefinition.EcsTaskDefinition.tfResourceType],
+      ) as { container_definitions: string }[]
+
+      const variables = [
+        'DATABASE_URL',
+        'DB_HOST',
+        'DB_PORT',
+        'DB_NAME',
+        'DB_USERNAME',
+        `${dbPrefix}_HOST`,
+        'REDIS_URL',
+        'REDIS_HOST',
+        'SESSIONS_URL',
+      ]
+
+      variables.forEach((variable) =>
+        expect(taskDefinition.container_definitions).toContain(`"name" = "${variable}"`),
+      )
+
+      expect(taskDefinition.container_definitions).toMatch(
+        /"name" = "DB_PASSWORD", "valueFrom" = "\${aws_db_instance\.[a-z0-9_]+\.master_user_secret\[0\]\.secret_arn}:password::"/,
+      )
+
+      expect(taskDefinition.container_definitions).not.toContain('"name" = "DB_PASSWORD", "value"')
+      expect(stack).toHaveResource(iamRolePolicyAttachment.IamRolePolicyAttachment)
+      expect(stack).toHaveDataSourceWithProperties(
+        dataAwsIamPolicyDocument.DataAwsIamPolicyDocument,
+        {
+          statement: expect.arrayContaining([
+            expect.objectContaining({ actions: ['kms:Decrypt'] }),
+          ]),
+        },
+      )
+    })
+
+    it('allows the service to connect to the linked databases and caches', () => {
+      const dbConfig = { ...getAwsDbConfigMock(), database: 'app_db' } as ServiceConfiguration
+      const cacheConfig = { ...getAwsCacheConfigMock('redis', 'redis', false), name: 'sessions' }
+      const config = { ...getAwsAppConfigMock(), links: [dbConfig.name, cacheConfig.name] }
+
+      const stack = getSynthesizedStack([config, dbConfig, cacheConfig])
+      const { resource } = JSON.parse(stack)
+      const [dbInstance] = Object.values(resource.aws_db_instance) as {
+        vpc_security_group_ids: string[]
+      }[]
+      const [cacheInstance] = Object.values(resource.aws_elasticache_cluster) as {
+        security_group_ids: string[]
+      }[]
+
+      ;[dbConfig, cacheConfig].forEach(({ name }) =>
+        expect(stack).toHaveResourceWithProperties(securityGroup.SecurityGroup, {
+          name: `allow-incoming-from-${config.name}-to-${name}`,
+          ingress: [
+            expect.objectContaining({
+              security_groups: [
+                expect.stringMatching(/^\${aws_security_group\.[a-z0-9_]+_security_group\.id}$/),
+              ],
+            }),
+          ],
+        }),
+      )
+
+      expect(dbInstance.vpc_security_group_ids).toContainEqual(
+        expect.stringMatching(/^\${aws_security_group\.allow-incoming-from-.+\.id}$/),
+      )
+      expect(cacheInstance.security_group_ids).toContainEqual(
+        expect.stringMatching(/^\${aws_security_group\.allow-incoming-from-.+\.id}$/),
+      )
+    })
+
+    it('allows the service to connect to the databases and caches that link to it', () => {
+      const config = getAwsAppConfigMock()
+      const dbConfig = {
+        ...getAwsDbConfigMock(),
+        database: 'app_db',
+        links: [config.name],
+      } as ServiceConfiguration
+      const cacheConfig = {
+        ...getAwsCacheConfigMock('redis', 'redis', false),
+        name: 'sessions',
+        links: [config.name],
+      }
+
+      const stack = getSynthesizedStack([config, dbConfig, cacheConfig])
+      const { resource } = JSON.parse(stack)
+      const [dbInstance] = Object.values(resource.aws_db_instance) as {
+        vpc_security_group_ids: string[]
+      }[]
+
+      ;[dbConfig, cacheConfig].forEach(({ name }) =>
+        expect(stack).toHaveResourceWithProperties(securityGroup.SecurityGroup, {
+          name: `allow-incoming-from-${config.name}-to-${name}`,
+        }),
+      )
+
+      expect(dbInstance.vpc_security_group_ids).toContainEqual(
+        `\${aws_security_group.allow-incoming-from-${config.name}-to-${dbConfig.name}.id}`,
+      )
+    })
+
+    it('registers the connection once when both services link to each other', () => {
+      const dbConfig = { ...getAwsDbConfigMock(), database: 'app_db' }
+      const config = { ...getAwsAppConfigMock(), links: [dbConfig.name] }
+
+      const stack = getSynthesizedStack([
+        config,
+        { ...dbConfig, links: [config.name] } as ServiceConfiguration,
+      ])
+      const { resource } = JSON.parse(stack)
+      const linkGroups = Object.keys(resource[securityGroup.SecurityGroup.tfResourceType]).filter(
+        (id) => id.startsWith('allow-incoming-from-'),
+      )
+
+      expect(linkGroups).toEqual([`allow-incoming-from-${config.name}-to-${dbConfig.name}`])
+      expect(stack).toHaveResourceWithProperties(ecsTaskDefinition.EcsTaskDefinition, {
+        container_definitions: expect.stringContaining('DB_HOST'),
+      })
+    })
+
+    it('runs workers in the private subnets without a load balancer', () => {
+      const config = {
+        ...omit(getAwsAppConfigMock(), 'domain'),
+        worker: true,
+        entrypoint: ['bundle', 'exec'],
+        command: ['sidekiq', '-C', 'config/sidekiq.yml'],
+      }
+
+      const stack = getSynthesizedStack([config])
+      const { resource } = JSON.parse(stack)
+      const [taskDefinition] = Object.values(
+        resource[ecsTaskDefinition.EcsTaskDefinition.tfResourceType],
+      ) as { container_definitions: string }[]
+
+      expect(stack).toHaveResourceWithProperties(ecsService.EcsService, {
+        network_configuration: expect.objectContaining({
+          assign_public_ip: false,
+          subnets: expect.arrayContaining([
+            expect.stringMatching(/^\${aws_subnet\.[a-z0-9_-]+_subnet[0-9]+\.id}$/),
+          ]),
+        }),
+      })
+      expect(stack).toHaveResource(natGateway.NatGateway)
+      expect(stack).not.toHaveResource(albListener.AlbListener)
+      expect(taskDefinition.container_definitions).toContain(
+        '"entryPoint" = ["bundle", "exec"], "command" = ["sidekiq", "-C", "config/sidekiq.yml"]',
+      )
+    })
+
+    it('requires a NAT gateway for workers', () => {
+      const config = { ...omit(getAwsAppConfigMock(), 'domain'), worker: true }
+      const networking = {
+        name: 'aws-networking',
+        provider: PROVIDER.AWS,
+        type: SERVICE_TYPE.NETWORKING,
+        region: config.region,
+        nat: false,
+      } as ServiceConfiguration
+
+      expect(() => getSynthesizedStack([networking, config])).toThrow(
+        `The worker "${config.name}" runs in the private subnets, which need a NAT gateway`,
+      )
+    })
+
+    it('does not allow workers to accept connections', () => {
+      expect(() =>
+        getValidData({ ...getAwsAppConfigMock(), worker: true, port: 3000 }, service.schema),
+      ).toThrowValidationError(
+        'Worker applications accept no connections, so they cannot have a port or a domain',
+      )
+    })
+
+    it('runs the scheduled tasks on the cluster', () => {
+      const config = {
+        ...getAwsAppConfigMock(),
+        schedules: [
+          {
+            name: 'maintenance',
+            expression: 'cron(0 3 * * ? *)',
+            command: ['rails', 'db:maintenance'],
+          },
+        ],
+      }
+
+      const stack = getSynthesizedStack([config])
+
+      expect(stack).toHaveResourceWithProperties(cloudwatchEventRule.CloudwatchEventRule, {
+        schedule_expression: 'cron(0 3 * * ? *)',
+      })
+      expect(stack).toHaveResourceWithProperties(cloudwatchEventTarget.CloudwatchEventTarget, {
+        arn: expect.stringMatching(/^\${aws_ecs_cluster\.[a-z0-9_-]+\.arn}$/),
+        input: JSON.stringify({
+          containerOverrides: [{ name: config.name, command: ['rails', 'db:maintenance'] }],
+        }),
+        ecs_target: expect.objectContaining({
+          launch_type: 'FARGATE',
+          task_definition_arn: expect.stringMatching(
+            /^\${aws_ecs_task_definition\.[a-z0-9_-]+\.arn}$/,
+          ),
+        }),
+      })
+      expect(stack).toHaveDataSourceWithProperties(
+        dataAwsIamPolicyDocument.DataAwsIamPolicyDocument,
+        {
+          statement: expect.arrayContaining([
+            expect.objectContaining({
+              actions: ['ecs:RunTask'],
+              resources: [
+                expect.stringMatching(
+                  /^\${aws_ecs_task_definition\.[a-z0-9_-]+\.arn_without_revision}:\*$/,
+                ),
+              ],
+            }),
+          ]),
+        },
+      )
+    })
+
+    it('requires valid schedule expressions', () => {
+      const config = {
+        ...getAwsAppConfigMock(),
+        schedules: [{ name: 'maintenance', expression: '0 3 * * *', command: ['rails'] }],
+      }
+
+      expect(() => getValidData(config, service.schema)).toThrowValidationError(
+        'The schedule expression should be a cron() or rate() expression',
+      )
+    })
+
+    it('requires unique schedule names', () => {
+      const schedule = { name: 'cleanup', expression: 'rate(1 day)', command: ['rake', 'cleanup'] }
+      const config = {
+        ...getAwsAppConfigMock(),
+        schedules: [schedule, { ...schedule, expression: 'rate(1 hour)' }],
+      }
+
+      expect(() => getValidData(config, service.schema)).toThrowValidationError(
+        'The schedules should have unique names',
+      )
+    })
+
+    it('does not register scheduling resources without schedules', () => {
+      const stack = getSynthesizedStack([getAwsAppConfigMock()])
+      expect(stack).not.toHaveResource(cloudwatchEventRule.CloudwatchEventRule)
+    })
+
+    it('leaves the service rollout to the deployment task', () => {
+      const config = {
+        ...getAwsAppConfigMock(),
+        tasks: { migrate: ['rails', 'db:migrate'] },
+        deploymentTask: 'migrate',
+      }
+
+      expect(getSynthesizedStack([config])).toHaveResourceWithProperties(ecsService.EcsService, {
+        lifecycle: { ignore_changes: ['task_definition'] },
+      })
+      expect(getSynthesizedStack([getAwsAppConfigMock()])).not.toHaveResourceWithProperties(
+        ecsService.EcsService,
+        { lifecycle: expect.anything() },
+      )
+    })
+
+    it('scales the service on the targets set', () => {
+      const config: AwsApplicationAttributes = {
+        ...getAwsAppConfigMock(),
+        port: faker.internet.port(),
+        autoscaling: { min: 2, max: 6, cpuTarget: 85, requestsPerTarget: 1000 },
+      }
+      const stack = getSynthesizedStack([config])
+
+      expect(stack).toHaveResourceWithProperties(ecsService.EcsService, {
+        desired_count: 2,
+        lifecycle: { ignore_changes: ['desired_count'] },
+      })
+      expect(stack).toHaveResourceWithProperties(appautoscalingTarget.AppautoscalingTarget, {
+        service_namespace: 'ecs',
+        scalable_dimension: 'ecs:service:DesiredCount',
+        min_capacity: 2,
+        max_capacity: 6,
+      })
+      expect(stack).toHaveResourceWithProperties(appautoscalingPolicy.AppautoscalingPolicy, {
+        policy_type: 'TargetTrackingScaling',
+        target_tracking_scaling_policy_configuration: {
+          target_value: 85,
+          predefined_metric_specification: {
+            predefined_metric_type: 'ECSServiceAverageCPUUtilization',
+          },
+        },
+      })
+      expect(stack).toHaveResourceWithProperties(appautoscalingPolicy.AppautoscalingPolicy, {
+        target_tracking_scaling_policy_configuration: {
+          target_value: 1000,
+          predefined_metric_specification: {
+            predefined_metric_type: 'ALBRequestCountPerTarget',
+            resource_label: expect.stringContaining('arn_suffix'),
+          },
+        },
+      })
+      expect(stack).not.toHaveResourceWithProperties(appautoscalingPolicy.AppautoscalingPolicy, {
+        target_tracking_scaling_policy_configuration: {
+          predefined_metric_specification: {
+            predefined_metric_type: 'ECSServiceAverageMemoryUtilization',
+          },
+        },
+      })
+
+      // The CPU alarm goes off when the scaling policy can't keep up with the load
+      expect(stack).toHaveResourceWithProperties(cloudwatchMetricAlarm.CloudwatchMetricAlarm, {
+        comparison_operator: 'GreaterThanThreshold',
+        metric_name: 'CPUUtilization',
+        threshold: 95,
+      })
+      expect(stack).toHaveResourceWithProperties(cloudwatchMetricAlarm.CloudwatchMetricAlarm, {
+        comparison_operator: 'GreaterThanThreshold',
+        metric_name: 'MemoryUtilization',
+        threshold: 80,
+      })
+    })
+
+    it('does not register scaling resources without autoscaling', () => {
+      const stack = getSynthesizedStack([getAwsAppConfigMock()])
+      expect(stack).not.toHaveResource(appautoscalingTarget.AppautoscalingTarget)
+      expect(stack).not.toHaveResource(appautoscalingPolicy.AppautoscalingPolicy)
+    })
+
+    it('requires valid autoscaling settings', () => {
+      expect(() =>
+        getValidData({ ...getAwsAppConfigMock(), autoscaling: { min: 1, max: 3 } }, service.schema),
+      ).toThrowValidationError(
+        'Autoscaling needs at least one of cpuTarget, memoryTarget or requestsPerTarget',
+      )
+      expect(() =>
+        getValidData(
+          { ...getAwsAppConfigMock(), autoscaling: { min: 1, max: 3, requestsPerTarget: 100 } },
+          service.schema,
+        ),
+      ).toThrowValidationError(
+        'Scaling on the requests per target needs the application to have a port',
+      )
+
+      const config = { ...getAwsAppConfigMock(), autoscaling: { min: 4, max: 2, cpuTarget: 70 } }
+      expect(() => getSynthesizedStack([config])).toThrow(
+        `The application "${config.name}" scales up to fewer nodes than its minimum, please make sure "max" is not less than "min"`,
+      )
+    })
+
+    it('applies the default health check', () => {
+      const { healthCheck } = getValidData(
+        omit({ ...getAwsAppConfigMock(), port: faker.internet.port() }, 'healthCheck'),
+        service.schema,
+      )
+
+      expect(healthCheck).toEqual({
+        path: '/',
+        matcher: '200',
+        interval: 30,
+        timeout: 10,
+        healthyThreshold: 5,
+        unhealthyThreshold: 3,
+      })
+    })
+
+    it('checks the health of the tasks using the configured settings', () => {
+      const config: AwsApplicationAttributes = {
+        ...getAwsAppConfigMock(),
+        port: faker.internet.port(),
+        healthCheck: {
+          path: '/healthz',
+          matcher: '200-299',
+          interval: 15,
+          timeout: 5,
+          healthyThreshold: 2,
+          unhealthyThreshold: 4,
+          gracePeriod: 120,
+          command: ['CMD-SHELL', 'curl -f http://localhost/healthz'],
+        },
+      }
+      const stack = getSynthesizedStack([config])
+
+      expect(stack).toHaveResourceWithProperties(albTargetGroup.AlbTargetGroup, {
+        health_check: expect.objectContaining({
+          path: '/healthz',
+          matcher: '200-299',
+          interval: 15,
+          timeout: 5,
+          healthy_threshold: 2,
+          unhealthy_threshold: 4,
+        }),
+      })
+      expect(stack).toHaveResourceWithProperties(ecsService.EcsService, {
+        health_check_grace_period_seconds: 120,
+      })
+      expect(stack).toHaveResourceWithProperties(ecsTaskDefinition.EcsTaskDefinition, {
+        container_definitions: expect.stringContaining(
+          '"healthCheck" = {"command" = ["CMD-SHELL", "curl -f http://localhost/healthz"], "interval" = 15, "timeout" = 5, "retries" = 4, "startPeriod" = 120}',
+        ),
+      })
+    })
+
+    it('requires the health check timeout to be less than its interval', () => {
+      const config = {
+        ...getAwsAppConfigMock(),
+        healthCheck: { ...getAwsAppConfigMock().healthCheck, interval: 10, timeout: 10 },
+      }
+
+      expect(() => getSynthesizedStack([config])).toThrow(
+        `The health check timeout of the application "${config.name}" should be less than its interval`,
+      )
+    })
+
+    it('stops and rolls back the deployments that fail', () => {
+      const config: AwsApplicationAttributes = {
+        ...getAwsAppConfigMock(),
+        deployment: { ...getAwsAppConfigMock().deployment, minimumHealthyPercent: 50 },
+      }
+      const stack = getSynthesizedStack([config])
+
+      expect(stack).toHaveResourceWithProperties(ecsService.EcsService, {
+        deployment_minimum_healthy_percent: 50,
+        deployment_maximum_percent: 200,
+        deployment_controller: { type: 'ECS' },
+        deployment_circuit_breaker: { enable: true, rollback: true },
+      })
+      expect(stack).not.toHaveResource(codedeployDeploymentGroup.CodedeployDeploymentGroup)
+    })
+
+    it('deploys the application using blue/green deployments', () => {
+      const config: AwsApplicationAttributes = {
+        ...getAwsAppConfigMock(),
+        port: 3000,
+        deployment: {
+          ...getAwsAppConfigMock().deployment,
+          strategy: 'blueGreen',
+          testPort: 8443,
+          terminationWait: 10,
+        },
+      }
+      const stack = getSynthesizedStack([config])
+      const { resource } = JSON.parse(stack)
+
+      expect(Object.keys(resource[albTargetGroup.AlbTargetGroup.tfResourceType])).toHaveLength(2)
+      expect(stack).toHaveResourceWithProperties(ecsService.EcsService, {
+        deployment_controller: { type: 'CODE_DEPLOY' },
+        lifecycle: { ignore_changes: ['task_definition', 'load_balancer'] },
+      })
+      expect(stack).not.toHaveResourceWithProperties(ecsService.EcsService, {
+        deployment_circuit_breaker: expect.anything(),
+      })
+      expect(stack).toHaveResourceWithProperties(albListener.AlbListener, {
+        port: 8443,
+        protocol: 'HTTP',
+      })
+      expect(stack).toHaveResourceWithProperties(albListenerRule.AlbListenerRule, {
+        lifecycle: { ignore_changes: ['action'] },
+      })
+      expect(stack).toHaveResourceWithProperties(
+        codedeployDeploymentGroup.CodedeployDeploymentGroup,
+        {
+          deployment_style: {
+            deployment_option: 'WITH_TRAFFIC_CONTROL',
+            deployment_type: 'BLUE_GREEN',
+          },
+          blue_green_deployment_config: expect.objectContaining({
+            terminate_blue_instances_on_deployment_success: {
+              action: 'TERMINATE',
+              termination_wait_time_in_minutes: 10,
+            },
+          }),
+        },
+      )
+    })
+
+    it('requires a port and a test port for blue/green deployments', () => {
+      const config = {
+        ...getAwsAppConfigMock(),
+        port: 3000,
+        deployment: { strategy: 'blueGreen' },
+      }
+
+      expect(() => getValidData(config, service.schema)).toThrowValidationError(
+        'Blue/green deployments need the application to have a port and the deployment to have a testPort',
+      )
+      expect(() =>
+        getValidData(
+          { ...config, deployment: { strategy: 'blueGreen', testPort: 443 } },
+          service.schema,
+        ),
+      ).toThrowValidationError('The test port should be a valid port, other than 80 and 443')
+    })
+
+    it('raises an error when the deployment task is not set', () => {
+      const config = { ...getAwsAppConfigMock(), tasks: {}, deploymentTask: 'migrate' }
+
+      expect(() => getSynthesizedStack([config])).toThrow(
+        `The application "${config.name}" runs the task "migrate" on deployment, which is not set`,
+      )
+    })
+
+    it('requires valid task names', () => {
+      const config = { ...getAwsAppConfigMock(), tasks: { 'db:migrate': ['rails', 'db:migrate'] } }
+
+      expect(() => getValidData(config, service.schema)).toThrowValidationError(
+        'Task names should only contain letters, numbers, dashes and underscores',
+      )
+    })
+
+    it('mounts the volumes on the containers', () => {
+      const volumeConfig = {
+        name: 'uploads',
+        provider: PROVIDER.AWS,
+        type: SERVICE_TYPE.VOLUME,
+        region: 'eu-central-1',
+      } as ServiceConfiguration
+      const config = {
+        ...getAwsAppConfigMock(),
+        volumes: [{ name: volumeConfig.name, path: '/mnt/uploads', readOnly: false }],
+      }
+
+      const stack = getSynthesizedStack([config, volumeConfig])
+      const { resource } = JSON.parse(stack)
+      const [taskDefinition] = Object.values(
+        resource[ecsTaskDefinition.EcsTaskDefinition.tfResourceType],
+      ) as { container_definitions: string }[]
+
+      expect(stack).toHaveResourceWithProperties(ecsTaskDefinition.EcsTaskDefinition, {
+        volume: [
+          {
+            name: volumeConfig.name,
+            efs_volume_configuration: {
+              file_system_id: expect.stringMatching(/^\${aws_efs_file_system\.[a-z0-9_]+\.id}$/),
+              transit_encryption: 'ENABLED',
+            },
+          },
+        ],
+      })
+      expect(taskDefinition.container_definitions).toContain(
+        `"mountPoints" = [{"sourceVolume" = "${volumeConfig.name}", "containerPath" = "/mnt/uploads", "readOnly" = false}]`,
+      )
+    })
+
+    it('raises an error when a mounted volume is not set', () => {
+      const config = {
+        ...getAwsAppConfigMock(),
+        volumes: [{ name: 'uploads', path: '/mnt/uploads', readOnly: false }],
+      }
+
+      expect(() => getSynthesizedStack([config])).toThrow(
+        `The application "${config.name}" mounts the volume "uploads" which is not set`,
+      )
+    })
   })
 })
@@ -0,0 +1,139 @@
+import { PROVIDER, SERVICE_TYPE } from '@src/constants'
+import { AwsCdn } from '@aws/services/cdn'
+import { CDN_REGION } from '@aws/constants'
+import { faker } from '@faker-js/faker'
+import {
+  acmCertificate,
+  cloudfrontDistribution,
+  cloudfrontOriginAccessControl,
+  route53Record,
+  s3BucketPolicy,
+} from '@cdktf/provider-aws'
+import { Registry } from '@src/services/registry'
+import { getValidData } from '@src/validation'
+import { getSynthesizedStack } from '@tests/helpers/getSynthesizedStack'
+import { getAwsAppConfigMock } from '@tests/mocks/aws'
+import type { AwsCdnAttributes } from '@aws/services/cdn'
+import type { AwsObjectStoreAttributes } from '@aws/services/objectStore'
+import type { ServiceConfiguration } from '@src/services/registry'
+
+describe('AWS CDN', () => {
+  const service = AwsCdn
+
+  const bucketName = `assets-${faker.string.alphanumeric({ length: 8, casing: 'lower' })}`
+  const storeConfig: AwsObjectStoreAttributes = {
+    name: 'assets',
+    provider: PROVIDER.AWS,
+    type: SERVICE_TYPE.OBJECT_STORAGE,
+    links: [],
+    buckets: [{ name: bucketName, encrypted: false, publicRead: false, versioning: false }],
+  }
+
+  it('is a valid AWS CDN service', () => {
+    expect(service.provider).toEqual(PROVIDER.AWS)
+    expect(service.type).toEqual(SERVICE_TYPE.CDN)
+    expect(service.regions).toEqual([CDN_REGION])
+  })
+
+  it('is fetched by the registry', () => {
+    expect(Registry.get(PROVIDER.AWS, SERVICE_TYPE.CDN))
+  })
+
+  it('raises a validation error for missing configuration', () => {
+    const config: Partial<AwsCdnAttributes> = {
+      name: faker.lorem.word(),
+      provider: PROVIDER.AWS,
+      type: SERVICE_TYPE.CDN,
+      region: CDN_REGION,
+    }
+
+    expect(() => getValidData(config, service.schema)).toThrow()
+    expect(() => getValidData({ ...config, origins: [] }, service.schema)).toThrowValidationError(
+      'You should provide at least one origin',
+    )
+  })
+
+  it('registers the resources on deployment', () => {
+    const app = getAwsAppConfigMock()
+    const config = {
+      name: 'cdn',
+      provider: PROVIDER.AWS,
+      type: SERVICE_TYPE.CDN,
+      region: CDN_REGION,
+      domain: `cdn.${app.domain}`,
+      origins: [
+        { name: 'web', service: app.name },
+        { name: 'static', service: storeConfig.name, bucket: bucketName },
+      ],
+      behaviors: [{ path: '/static/*', origin: 'static' }],
+    } as ServiceConfiguration
+
+    const stack = getSynthesizedStack([{ ...app, port: 3000 }, storeConfig, config])
+
+    expect(stack).toHaveResourceWithProperties(cloudfrontDistribution.CloudfrontDistribution, {
+      aliases: [`cdn.${app.domain}`],
+      default_cache_behavior: expect.objectContaining({
+        target_origin_id: 'web',
+        viewer_protocol_policy: 'redirect-to-https',
+      }),
+      ordered_cache_behavior: [
+        expect.objectContaining({ path_pattern: '/static/*', target_origin_id: 'static' }),
+      ],
+      origin: expect.arrayContaining([
+        expect.objectContaining({
+          origin_id: 'web',
+          custom_origin_config: expect.objectContaining({ origin_protocol_policy: 'https-only' }),
+        }),
+        expect.objectContaining({
+          origin_id: 'static',
+          origin_access_control_id: expect.stringContaining('aws_cloudfront_origin_access_control'),
+        }),
+      ]),
+      viewer_certificate: expect.objectContaining({ ssl_support_method: 'sni-only' }),
+    })
+
+    expect(stack).toHaveResource(cloudfrontOriginAccessControl.CloudfrontOriginAccessControl)
+    expect(stack).toHaveResource(s3BucketPolicy.S3BucketPolicy)
+    expect(stack).toHaveResourceWithProperties(acmCertificate.AcmCertificate, {
+      domain_name: `cdn.${app.domain}`,
+      provider: `aws.aws-${CDN_REGION}-provider`,
+    })
+    expect(stack).toHaveResourceWithProperties(route53Record.Route53Record, {
+      name: `cdn.${app.domain}`,
+      type: 'AAAA',
+    })
+  })
+
+  it('uses the default certificate when there is no domain set', () => {
+    const config = {
+      name: 'cdn',
+      provider: PROVIDER.AWS,
+      type: SERVICE_TYPE.CDN,
+      region: CDN_REGION,
+      origins: [{ name: 'static', service: storeConfig.name, bucket: bucketName }],
+    } as ServiceConfiguration
+
+    const stack = getSynthesizedStack([storeConfig, config])
+
+    expect(stack).toHaveResourceWithProperties(cloudfrontDistribution.CloudfrontDistribution, {
+      viewer_certificate: { cloudfront_default_certificate: true },
+    })
+    expect(stack).not.toHaveResource(acmCertificate.AcmCertificate)
+    expect(stack).not.toHaveResource(route53Record.Route53Record)
+  })
+
+  it('raises an error when a cache behavior references an origin that is not set', () => {
+    const config = {
+      name: 'cdn',
+      provider: PROVIDER.AWS,
+      type: SERVICE_TYPE.CDN,
+      region: CDN_REGION,
+      origins: [{ name: 'static', service: storeConfig.name, bucket: bucketName }],
+      behaviors: [{ path: '/api/*', origin: 'api' }],
+    } as ServiceConfiguration
+
+    expect(() => getSynthesizedStack([storeConfig, config])).toThrow(
+      'The CDN "cdn" references the origin "api" which is not set',
+    )
+  })
+})
@@ -0,0 +1,119 @@
+import { PROVIDER, SERVICE_TYPE } from '@src/constants'
+import { AwsInstance } from '@aws/services/instance'
+import { REGIONS } from '@aws/constants'
+import { dataAwsAmi, instance, keyPair, securityGroup } from '@cdktf/provider-aws'
+import { Registry } from '@src/services/registry'
+import { getValidData } from '@src/validation'
+import { getSynthesizedStack } from '@tests/helpers/getSynthesizedStack'
+import { getAwsDbConfigMock } from '@tests/mocks/aws'
+import type { AwsInstanceAttributes } from '@aws/services/instance'
+import type { ServiceConfiguration } from '@src/services/registry'
+
+describe('AWS Instance', () => {
+  const service = AwsInstance
+
+  const getConfig = (): AwsInstanceAttributes => ({
+    name: 'worker',
+    provider: PROVIDER.AWS,
+    type: SERVICE_TYPE.INSTANCE,
+    region: 'eu-central-1',
+    size: 't3.small',
+    storage: 50,
+    port: 22,
+    os: 'ubuntu-24.04',
+    links: [],
+    externalLinks: [],
+  })
+
+  it('is a valid AWS instance service', () => {
+    expect(service.provider).toEqual(PROVIDER.AWS)
+    expect(service.type).toEqual(SERVICE_TYPE.INSTANCE)
+    expect(new Set(service.regions)).toEqual(new Set(REGIONS))
+  })
+
+  it('is fetched by the registry', () => {
+    expect(Registry.get(PROVIDER.AWS, SERVICE_TYPE.INSTANCE))
+  })
+
+  it('raises a validation error for invalid configuration', () => {
+    expect(() => getValidData({ ...getConfig(), size: 'db.t3.micro' }, service.schema)).toThrow()
+    expect(() =>
+      getValidData({ ...getConfig(), ami: 'my-image' }, service.schema),
+    ).toThrowValidationError('The AMI should be a valid AMI ID, eg. ami-0123456789abcdef0')
+    expect(() =>
+      getValidData({ ...getConfig(), sshKey: 'not-a-key' }, service.schema),
+    ).toThrowValidationError('The SSH key should be a valid public key')
+  })
+
+  it('registers the resources on deployment', () => {
+    const config = {
+      ...getConfig(),
+      sshKey: 'ssh-ed25519 AAAAC3NzaC1lZDI1NTE5AAAAIGtest user@host',
+      userData: '#!/bin/bash\necho hello',
+    }
+    const stack = getSynthesizedStack([config])
+
+    expect(stack).toHaveDataSourceWithProperties(dataAwsAmi.DataAwsAmi, {
+      most_recent: true,
+      owners: ['099720109477'],
+    })
+    expect(stack).toHaveResourceWithProperties(keyPair.KeyPair, {
+      public_key: config.sshKey,
+    })
+    expect(stack).toHaveResourceWithProperties(instance.Instance, {
+      ami: expect.stringMatching(/^\${data\.aws_ami\.[a-z0-9_]+\.id}$/),
+      instance_type: config.size,
+      key_name: expect.stringMatching(/^\${aws_key_pair\.[a-z0-9_]+\.key_name}$/),
+      user_data: config.userData,
+      root_block_device: expect.objectContaining({ volume_size: config.storage, encrypted: true }),
+    })
+  })
+
+  it('uses the AMI provided', () => {
+    const stack = getSynthesizedStack([{ ...getConfig(), ami: 'ami-0123456789abcdef0' }])
+
+    expect(stack).not.toHaveDataSource(dataAwsAmi.DataAwsAmi)
+    expect(stack).toHaveResourceWithProperties(instance.Instance, {
+      ami: 'ami-0123456789abcdef0',
+    })
+  })
+
+  it('allows the instance to connect to the linked databases', () => {
+    const dbConfig = { ...getAwsDbConfigMock(), database: 'app_db' } as ServiceConfiguration
+    const config = { ...getConfig(), links: [dbConfig.name] }
+
+    const stack = getSynthesizedStack([config, dbConfig])
+    const { resource } = JSON.parse(stack)
+    const [dbInstance] = Object.values(resource.aws_db_instance) as {
+      vpc_security_group_ids: string[]
+    }[]
+
+    expect(stack).toHaveResourceWithProperties(securityGroup.SecurityGroup, {
+      name: `allow-incoming-from-${config.name}-to-${dbConfig.name}`,
+    })
+    expect(dbInstance.vpc_security_group_ids).toContainEqual(
+      expect.stringMatching(/^\${aws_security_group\.allow-incoming-from-.+\.id}$/),
+    )
+  })
+
+  it('allows connections from the external links', () => {
+    const config = { ...getConfig(), externalLinks: ['192.168.1.10', '10.10.0.0/16'] }
+
+    const stack = getSynthesizedStack([config])
+    const { resource } = JSON.parse(stack)
+    const [ec2Instance] = Object.values(resource[instance.Instance.tfResourceType]) as {
+      vpc_security_group_ids: string[]
+    }[]
+
+    expect(stack).toHaveResourceWithProperties(securityGroup.SecurityGroup, {
+      name: `allow-external-links-to-${config.name}`,
+      ingress: [
+        expect.objectContaining({ from_port: 22, cidr_blocks: ['192.168.1.10/32'] }),
+        expect.objectContaining({ from_port: 22, cidr_blocks: ['10.10.0.0/16'] }),
+      ],
+    })
+    expect(ec2Instance.vpc_security_group_ids).toContain(
+      `\${aws_security_group.allow-external-links-to-${config.name}.id}`,
+    )
+  })
+})
@@ -1,9 +1,10 @@
 import { PROVIDER, SERVICE_TYPE } from '@src/constants'
 import { faker } from '@faker-js/faker'
-import { alb, securityGroup } from '@cdktf/provider-aws'
+import { alb, albListener, securityGroup } from '@cdktf/provider-aws'
 import { Registry } from '@src/services/registry'
 import { AwsLoadBalancer } from '@aws/services/loadbalancer'
 import { getSynthesizedStack } from '@tests/helpers/getSynthesizedStack'
+import { getAwsAppConfigMock } from '@tests/mocks/aws'
 import type { AwsLoadBalancerAttributes } from '@aws/services/loadbalancer'
 
 describe('AWS Load balancer', () => {
@@ -36,4 +37,41 @@ describe('AWS Load balancer', () => {
     expect(stack).toHaveResource(alb.Alb)
     expect(stack).toHaveResource(securityGroup.SecurityGroup)
   })
+
+  it('responds with a 404 over HTTP when there are no certificates to serve', () => {
+    const config: AwsLoadBalancerAttributes = {
+      name: faker.lorem.word(),
+      provider: PROVIDER.AWS,
+      type: SERVICE_TYPE.LOAD_BALANCER,
+      region: 'eu-central-1',
+    }
+
+    const stack = getSynthesizedStack([config])
+
+    expect(stack).toHaveResourceWithProperties(albListener.AlbListener, {
+      port: 80,
+      protocol: 'HTTP',
+      default_action: [
+        {
+          type: 'fixed-response',
+          fixed_response: {
+            content_type: 'text/plain',
+            message_body: 'Not Found',
+            status_code: '404',
+          },
+        },
+      ],
+    })
+    expect(stack).not.toHaveResourceWithProperties(albListener.AlbListener, { port: 443 })
+  })
+  it('keeps the name of the auto-generated load balancer within the AWS limits', () => {
+    const app = { ...getAwsAppConfigMock(), region: 'us-east-1', port: 3000, domain: undefined }
+    const stack = getSynthesizedStack([app])
+    const [loadBalancer] = Object.values(JSON.parse(stack).resource[alb.Alb.tfResourceType]) as {
+      name: string
+    }[]
+
+    expect(loadBalancer.name).toEqual('aws-loadbalancer-service')
+    expect(loadBalancer.name.length).toBeLessThanOrEqual(32)
+  })
 })
@@ -0,0 +1,117 @@
+import { PROVIDER, SERVICE_TYPE } from '@src/constants'
+import { AwsMailer } from '@aws/services/mailer'
+import { REGIONS } from '@aws/constants'
+import { faker } from '@faker-js/faker'
+import {
+  ecsTaskDefinition,
+  iamAccessKey,
+  route53Record,
+  secretsmanagerSecret,
+  sesConfigurationSet,
+  sesDomainIdentity,
+  sesDomainMailFrom,
+  sesEventDestination,
+  snsTopicSubscription,
+} from '@cdktf/provider-aws'
+import { Registry } from '@src/services/registry'
+import { getValidData } from '@src/validation'
+import { getSynthesizedStack } from '@tests/helpers/getSynthesizedStack'
+import { getAwsAppConfigMock } from '@tests/mocks/aws'
+import type { AwsMailerAttributes } from '@aws/services/mailer'
+
+describe('AWS Mailer', () => {
+  const service = AwsMailer
+
+  const getConfig = (): AwsMailerAttributes => ({
+    name: 'mailer',
+    provider: PROVIDER.AWS,
+    type: SERVICE_TYPE.MAILER,
+    region: 'eu-central-1',
+    domain: faker.internet.domainName(),
+    mailFrom: 'mail',
+    notifications: [faker.internet.email()],
+  })
+
+  it('is a valid AWS mailer service', () => {
+    expect(service.provider).toEqual(PROVIDER.AWS)
+    expect(service.type).toEqual(SERVICE_TYPE.MAILER)
+    expect(new Set(service.regions)).toEqual(new Set(REGIONS))
+  })
+
+  it('is fetched by the registry', () => {
+    expect(Registry.get(PROVIDER.AWS, SERVICE_TYPE.MAILER))
+  })
+
+  it('raises a validation error for invalid configuration', () => {
+    const config = { ...getConfig(), domain: undefined }
+    expect(() => getValidData(config, service.schema)).toThrow()
+
+    expect(() =>
+      getValidData({ ...getConfig(), notifications: ['not-an-email'] }, service.schema),
+    ).toThrowValidationError('The notification recipients should be valid email addresses')
+  })
+
+  it('registers the resources on deployment', () => {
+    const config = getConfig()
+    const stack = getSynthesizedStack([config])
+
+    expect(stack).toHaveResourceWithProperties(sesDomainIdentity.SesDomainIdentity, {
+      domain: config.domain,
+    })
+    expect(stack).toHaveResourceWithProperties(sesDomainMailFrom.SesDomainMailFrom, {
+      mail_from_domain: `mail.${config.domain}`,
+    })
+    expect(stack).toHaveResourceWithProperties(route53Record.Route53Record, {
+      name: `mail.${config.domain}`,
+      type: 'TXT',
+      records: ['v=spf1 include:amazonses.com ~all'],
+    })
+    expect(stack).toHaveResourceWithProperties(route53Record.Route53Record, {
+      type: 'CNAME',
+      name: expect.stringContaining(`._domainkey.${config.domain}`),
+    })
+    expect(stack).toHaveResource(sesConfigurationSet.SesConfigurationSet)
+    expect(stack).toHaveResourceWithProperties(sesEventDestination.SesEventDestination, {
+      matching_types: ['bounce', 'complaint'],
+    })
+    expect(stack).toHaveResourceWithProperties(snsTopicSubscription.SnsTopicSubscription, {
+      protocol: 'email',
+      endpoint: config.notifications[0],
+    })
+    expect(stack).toHaveResource(iamAccessKey.IamAccessKey)
+    expect(stack).toHaveResource(secretsmanagerSecret.SecretsmanagerSecret)
+  })
+
+  it('keeps the resource ids of the SMTP credentials across deployments', () => {
+    const config = getConfig()
+    const getSecretIds = () =>
+      Object.keys(
+        JSON.parse(getSynthesizedStack([config])).resource[
+          secretsmanagerSecret.SecretsmanagerSecret.tfResourceType
+        ],
+      )
+
+    expect(getSecretIds()).toEqual(getSecretIds())
+    expect(getSecretIds()).toEqual([
+      expect.stringMatching(/^secret_mailer_.+_smtp_credentials_secret$/),
+    ])
+  })
+
+  it('exposes the SMTP settings to the applications that link to it', () => {
+    const config = getConfig()
+    const app = { ...getAwsAppConfigMock(), links: [config.name] }
+
+    const stack = getSynthesizedStack([app, config])
+    const { resource } = JSON.parse(stack)
+    const [taskDefinition] = Object.values(
+      resource[ecsTaskDefinition.EcsTaskDefinition.tfResourceType],
+    ) as { container_definitions: string }[]
+
+    expect(taskDefinition.container_definitions).toContain(
+      `"name" = "SMTP_HOST", "value" = "email-smtp.${config.region}.amazonaws.com"`,
+    )
+    expect(taskDefinition.container_definitions).toMatch(
+      /"name" = "SMTP_PASSWORD", "valueFrom" = "\${aws_secretsmanager_secret\.[a-z0-9_-]+\.arn}:password::"/,
+    )
+  })
+})
@@ -1,8 +1,10 @@
-import { internetGateway, subnet, vpc } from '@cdktf/provider-aws'
+import { omit } from 'lodash'
+import { internetGateway, natGateway, routeTable, subnet, vpc } from '@cdktf/provider-aws'
 import { REGIONS } from '@aws/constants'
 import { DEFAULT_PROFILE_NAME, PROVIDER, SERVICE_TYPE } from '@src/constants'
 import { AwsNetworking } from '@aws/services/networking'
 import { Registry } from '@src/services/registry'
+import { getValidData } from '@src/validation'
 import { getSynthesizedStack } from '@tests/helpers/getSynthesizedStack'
 import { getCidrBlocks } from '@src/lib/networking'
 import type { AwsNetworkingAttributes } from '@aws/types'
@@ -59,6 +61,7 @@ describe('AWS Networking', () => {
         region: 'eu-central-1',
         profile: 'default',
         overrides: {},
+        nat: true,
       }
     })
 
@@ -69,6 +72,31 @@ describe('AWS Networking', () => {
       expect(stack).toHaveResource(subnet.Subnet)
     })
 
+    it('routes the outgoing traffic of the private subnets through a NAT gateway', () => {
+      const stack = getSynthesizedStack([config])
+
+      expect(stack).toHaveResourceWithProperties(natGateway.NatGateway, {
+        subnet_id: expect.stringMatching(/^\${aws_subnet\.[a-z0-9_-]+_public_subnet1\.id}$/),
+      })
+      expect(stack).toHaveResourceWithProperties(routeTable.RouteTable, {
+        route: [
+          expect.objectContaining({
+            cidr_block: '0.0.0.0/0',
+            nat_gateway_id: expect.stringContaining('aws_nat_gateway'),
+          }),
+        ],
+      })
+    })
+
+    it('does not provision a NAT gateway when disabled', () => {
+      const stack = getSynthesizedStack([{ ...config, nat: false }])
+      expect(stack).not.toHaveResource(natGateway.NatGateway)
+    })
+
+    it('does not provision a NAT gateway unless it is enabled', () => {
+      expect(getValidData(omit(config, 'nat'), service.schema)).toMatchObject({ nat: false })
+    })
+
     it('imports the default vpc when specified', () => {
       const configWithImportedVpc: AwsNetworkingAttributes = {
         ...config,
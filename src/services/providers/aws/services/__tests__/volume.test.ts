@@ -0,0 +1,52 @@
+import { PROVIDER, SERVICE_TYPE } from '@src/constants'
+import { AwsVolume } from '@aws/services/volume'
+import { REGIONS } from '@aws/constants'
+import { efsFileSystem, efsMountTarget } from '@cdktf/provider-aws'
+import { Registry } from '@src/services/registry'
+import { getValidData } from '@src/validation'
+import { getSynthesizedStack } from '@tests/helpers/getSynthesizedStack'
+import type { AwsVolumeAttributes } from '@aws/services/volume'
+
+describe('AWS Volume', () => {
+  const service = AwsVolume
+
+  const getConfig = (): AwsVolumeAttributes => ({
+    name: 'uploads',
+    provider: PROVIDER.AWS,
+    type: SERVICE_TYPE.VOLUME,
+    region: 'eu-central-1',
+    performanceMode: 'generalPurpose',
+    throughputMode: 'bursting',
+  })
+
+  it('is a valid AWS volume service', () => {
+    expect(service.provider).toEqual(PROVIDER.AWS)
+    expect(service.type).toEqual(SERVICE_TYPE.VOLUME)
+    expect(new Set(service.regions)).toEqual(new Set(REGIONS))
+  })
+
+  it('is fetched by the registry', () => {
+    expect(Registry.get(PROVIDER.AWS, SERVICE_TYPE.VOLUME))
+  })
+
+  it('raises a validation error for invalid configuration', () => {
+    expect(() =>
+      getValidData({ ...getConfig(), throughputMode: 'provisioned' }, service.schema),
+    ).toThrow()
+  })
+
+  it('registers the resources on deployment', () => {
+    const config = getConfig()
+    const stack = getSynthesizedStack([config])
+
+    expect(stack).toHaveResourceWithProperties(efsFileSystem.EfsFileSystem, {
+      encrypted: true,
+      kms_key_id: expect.stringMatching(/^\${aws_kms_key\.[a-z0-9_-]+\.arn}$/),
+      performance_mode: 'generalPurpose',
+      throughput_mode: 'bursting',
+    })
+    expect(stack).toHaveResourceWithProperties(efsMountTarget.EfsMountTarget, {
+      subnet_id: expect.stringMatching(/^\${aws_subnet\.[a-z0-9_-]+\.id}$/),
+    })
+  })
+})
@@ -1,6 +1,28 @@
 import { pipe } from 'lodash/fp'
+import {
+  camelCase,
+  clamp,
+  countBy,
+  has,
+  isEmpty,
+  kebabCase,
+  merge,
+  omit,
+  pickBy,
+  uniq,
+} from 'lodash'
 import {
   albListener,
+  albListenerRule,
+  appautoscalingPolicy,
+  appautoscalingTarget,
+  codedeployApp,
+  codedeployDeploymentGroup,
+  cloudwatchEventRule,
+  cloudwatchEventTarget,
+  dataAwsIamPolicyDocument,
+  iamRole,
+  iamRolePolicyAttachment,
   ecsService,
   ecsTaskDefinition,
   route53Record,
@@ -17,22 +39,28 @@ import { Fn, TerraformOutput } from 'cdktf'
 import { hashString } from '@src/lib/hash'
 import { awsApplicationServiceAlarms } from '@aws/alerts/application'
 import { withAwsAlerts } from '@aws/utils/withAlerts'
+import { registerListenerRule, type ListenerRoute } from '@aws/utils/getListenerRulePriority'
 import { REGIONS } from '@aws/constants'
+import { isConnectableService, onServiceLinked } from '@aws/utils/onServiceLinked'
+import { MAILER_SERVICE_TYPES, getServiceConnection } from '@aws/utils/getServiceConnection'
 import type {
   ecsCluster,
-  iamRole,
   route53Zone,
   ecrRepository,
   alb,
   cloudwatchLogGroup,
   acmCertificate,
+  efsFileSystem,
 } from '@cdktf/provider-aws'
+import type { Dictionary } from 'lodash'
 import type { OptionalKeys } from '@src/lib/util'
 import type { Stack } from '@src/lib/stack'
 import type {
+  BaseProvisionable,
   BaseServiceAttributes,
   Provisionable,
   Service,
+  ServiceConnection,
   ServiceRequirement,
 } from '@src/services/types'
 import type { AwsNetworkingAssociations, AwsProviderAssociations } from '@aws/types'
@@ -44,11 +72,14 @@ import type {
 } from './loadbalancer'
 import type { AwsDnsAttributes, AwsDnsProvisionable, AwsDnsResources } from './dns'
 import type { AwsSSLAttributes, AwsSSLProvisionable, AwsSSLResources } from './ssl'
+import type { AwsVolumeProvisionable } from './volume'
+import { grantSecretsReadAccess } from './applicationCluster'
 
 export type AwsApplicationAttributes = BaseServiceAttributes &
   behaviors.MultiNodeAttributes &
   behaviors.MonitoringAttributes &
   behaviors.RegionalAttributes &
+  behaviors.LinkableAttributes &
   OptionalKeys<behaviors.ConnectableAttributes, 'port'> & {
     provider: typeof PROVIDER.AWS
     type: typeof SERVICE_TYPE.APP
@@ -56,11 +87,65 @@ export type AwsApplicationAttributes = BaseServiceAttributes &
     image: string
     memory: number
     domain?: string
+    path?: string
     environment?: Record<string, string>
+    secrets?: Record<string, string>
     www: boolean
+    worker: boolean
+    command?: string[]
+    entrypoint?: string[]
+    volumes?: AwsApplicationVolume[]
+    schedules?: AwsApplicationSchedule[]
+    tasks?: Record<string, string[]>
+    deploymentTask?: string
+    autoscaling?: AwsApplicationAutoscaling
+    healthCheck: AwsApplicationHealthCheck
+    deployment: AwsApplicationDeployment
   }
 
+export type AwsApplicationDeployment = {
+  strategy: 'rolling' | 'blueGreen'
+  minimumHealthyPercent: number
+  maximumPercent: number
+  circuitBreaker: boolean
+  testPort?: number
+  terminationWait: number
+}
+
+export type AwsApplicationHealthCheck = {
+  path: string
+  matcher: string
+  interval: number
+  timeout: number
+  healthyThreshold: number
+  unhealthyThreshold: number
+  gracePeriod?: number
+  command?: string[]
+}
+
+export type AwsApplicationAutoscaling = {
+  min: number
+  max: number
+  cpuTarget?: number
+  memoryTarget?: number
+  requestsPerTarget?: number
+}
+
+export type AwsApplicationSchedule = {
+  name: string
+  expression: string
+  command: string[]
+}
+
+export type AwsApplicationVolume = {
+  name: string
+  path: string
+  readOnly: boolean
+}
+
 export type AwsApplicationRequirements = {
+  linkedServices: ServiceRequirement<ServiceConnection> & { multiple: true }
+  volumes: ServiceRequirement<Dictionary<efsFileSystem.EfsFileSystem>> & { multiple: true }
   dnsZone: ServiceRequirement<AwsDnsResources['zone'], typeof SERVICE_TYPE.DNS>
   cluster: ServiceRequirement<AwsClusterResources['cluster'], typeof SERVICE_TYPE.CLUSTER>
   repository: ServiceRequirement<AwsClusterResources['repository'], typeof SERVICE_TYPE.CLUSTER>
@@ -78,9 +163,37 @@ export type AwsApplicationRequirements = {
     AwsLoadBalancerResources['securityGroup'],
     typeof SERVICE_TYPE.LOAD_BALANCER
   >
+  listener: ServiceRequirement<
+    AwsLoadBalancerResources['httpListener'],
+    typeof SERVICE_TYPE.LOAD_BALANCER
+  >
+  listeners: ServiceRequirement<
+    Dictionary<AwsLoadBalancerResources['httpListener']>,
+    typeof SERVICE_TYPE.LOAD_BALANCER
+  >
 }
 
 export const getApplicationRequirements = (): AwsApplicationRequirements => ({
+  linkedServices: {
+    requirement: true,
+    multiple: true,
+    where: (source: AwsApplicationAttributes, linked: BaseServiceAttributes) =>
+      (source.links || []).includes(linked.name) &&
+      (isConnectableService(source, linked) ||
+        (source.provider === linked.provider && MAILER_SERVICE_TYPES.includes(linked.type))),
+    handler: (prov: BaseProvisionable): ServiceConnection => getServiceConnection(prov),
+  },
+  volumes: {
+    requirement: true,
+    multiple: true,
+    where: (source: AwsApplicationAttributes, linked: BaseServiceAttributes) =>
+      source.provider === linked.provider &&
+      linked.type === SERVICE_TYPE.VOLUME &&
+      (source.volumes || []).some((volume) => volume.name === linked.name),
+    handler: (prov: AwsVolumeProvisionable): Dictionary<efsFileSystem.EfsFileSystem> => ({
+      [prov.config.name]: prov.provisions.fileSystem,
+    }),
+  },
   cluster: {
     with: SERVICE_TYPE.CLUSTER,
     requirement: true,
@@ -114,6 +227,7 @@ export const getApplicationRequirements = (): AwsApplicationRequirements => ({
   dnsZone: {
     with: SERVICE_TYPE.DNS,
     requirement: true,
+    optional: true,
     where: (source: AwsApplicationAttributes, linked: AwsDnsAttributes) =>
       source.provider === linked.provider &&
       Boolean(source.domain) &&
@@ -123,6 +237,7 @@ export const getApplicationRequirements = (): AwsApplicationRequirements => ({
   loadBalancer: {
     with: SERVICE_TYPE.LOAD_BALANCER,
     requirement: true,
+    optional: true,
     where: (source: AwsApplicationAttributes, linked: AwsLoadBalancerAttributes) =>
       Boolean(source.port) &&
       source.provider === linked.provider &&
@@ -132,6 +247,7 @@ export const getApplicationRequirements = (): AwsApplicationRequirements => ({
   loadBalancerSecurityGroup: {
     with: SERVICE_TYPE.LOAD_BALANCER,
     requirement: true,
+    optional: true,
     where: (source: AwsApplicationAttributes, linked: AwsLoadBalancerAttributes) =>
       Boolean(source.port) &&
       source.provider === linked.provider &&
@@ -139,9 +255,37 @@ export const getApplicationRequirements = (): AwsApplicationRequirements => ({
     handler: (prov: AwsLoadBalancerProvisionable): securityGroup.SecurityGroup =>
       prov.provisions.securityGroup,
   },
+  listener: {
+    with: SERVICE_TYPE.LOAD_BALANCER,
+    requirement: true,
+    optional: true,
+    where: (source: AwsApplicationAttributes, linked: AwsLoadBalancerAttributes) =>
+      Boolean(source.port) &&
+      source.provider === linked.provider &&
+      source.region === linked.region,
+    // Requests are only forwarded over HTTPS when the load balancer has certificates to serve
+    handler: (prov: AwsLoadBalancerProvisionable): albListener.AlbListener =>
+      prov.provisions.httpsListener || prov.provisions.httpListener,
+  },
+  listeners: {
+    with: SERVICE_TYPE.LOAD_BALANCER,
+    requirement: true,
+    optional: true,
+    where: (source: AwsApplicationAttributes, linked: AwsLoadBalancerAttributes) =>
+      Boolean(source.port) &&
+      source.provider === linked.provider &&
+      source.region === linked.region,
+    handler: ({
+      provisions: { httpListener, httpsListener },
+    }: AwsLoadBalancerProvisionable): Dictionary<albListener.AlbListener> => ({
+      http: httpListener,
+      ...(httpsListener ? { https: httpsListener } : {}),
+    }),
+  },
   certificate: {
     with: SERVICE_TYPE.SSL,
     requirement: true,
+    optional: true,
     where: (source: AwsApplicationAttributes, linked: AwsSSLAttributes) =>
       source.provider === linked.provider && source.domain === linked.domain,
     handler: (prov: AwsSSLProvisionable): acmCertificate.AcmCertificate =>
@@ -151,14 +295,26 @@ export const getApplicationRequirements = (): AwsApplicationRequirements => ({
 
 export type AwsApplicationService = Service<
   AwsApplicationAttributes,
-  AwsProviderAssociations & AwsNetworkingAssociations & AwsApplicationRequirements
+  AwsProviderAssociations &
+    AwsNetworkingAssociations &
+    AwsApplicationRequirements &
+    behaviors.LinkableAssociations
 >
 
 export type AwsApplicationResources = {
   service: ecsService.EcsService
   taskDefinition: ecsTaskDefinition.EcsTaskDefinition
-  listeners: albListener.AlbListener[]
+  listenerRule?: albListenerRule.AlbListenerRule
   dnsRecords: route53Record.Route53Record[]
+  securityGroup: securityGroup.SecurityGroup
+  schedules: cloudwatchEventRule.CloudwatchEventRule[]
+  schedulerRole?: iamRole.IamRole
+  scalingTarget?: appautoscalingTarget.AppautoscalingTarget
+  scalingPolicies: appautoscalingPolicy.AppautoscalingPolicy[]
+  greenTargetGroup?: albTargetGroup.AlbTargetGroup
+  testListener?: albListener.AlbListener
+  deploymentGroup?: codedeployDeploymentGroup.CodedeployDeploymentGroup
+  secretsPolicyAttachment?: iamRolePolicyAttachment.IamRolePolicyAttachment
   outputs: TerraformOutput[]
 }
 
@@ -167,6 +323,484 @@ export type AwsApplicationProvisionable = Provisionable<
   AwsApplicationResources
 >
 
+/**
+ * Merges the connection details of the linked services. Variables provided by more than one
+ * service are omitted, since it's ambiguous which service they refer to.
+ *
+ * @param {ServiceConnection[]} connections the connection details of the linked services
+ * @returns {ServiceConnection} the merged connection details
+ */
+const mergeConnections = (connections: ServiceConnection[]): ServiceConnection => {
+  const counts = countBy(
+    connections.flatMap(({ environment, secrets }) => [
+      ...Object.keys(environment),
+      ...Object.keys(secrets),
+    ]),
+  )
+
+  const isUnique = (_value: string, name: string) => counts[name] === 1
+
+  return {
+    environment: pickBy(merge({}, ...connections.map((conn) => conn.environment)), isUnique),
+    secrets: pickBy(merge({}, ...connections.map((conn) => conn.secrets)), isUnique),
+    secretArns: connections.flatMap((conn) => conn.secretArns),
+  }
+}
+
+/**
+ * @param {String} name the application's name
+ * @param {String} environment the environment the application is deployed to
+ * @returns {String} the name of the CodeDeploy application and deployment group of the application
+ */
+export const getDeploymentGroupName = (name: string, environment: string): string =>
+  kebabCase(`${name}-${environment}`)
+
+/**
+ * @param {String} name the application's name
+ * @param {String} environment the environment the application is deployed to
+ * @returns {String} the family of the application's task definitions
+ */
+export const getTaskDefinitionFamily = (name: string, environment: string): string =>
+  kebabCase(`${name}-${environment}`)
+
+/**
+ * Registers a target group for the application's containers
+ *
+ * @param {AwsApplicationProvisionable} provisionable the application's provisionable
+ * @param {String} id the id of the target group resource
+ * @param {String} name the name of the target group
+ * @param {Stack} stack the stack to deploy the resources to
+ * @returns {albTargetGroup.AlbTargetGroup} the target group
+ */
+const registerTargetGroup = (
+  { config, requirements: { vpc, loadBalancer, providerInstance } }: AwsApplicationProvisionable,
+  id: string,
+  name: string,
+  stack: Stack,
+): albTargetGroup.AlbTargetGroup =>
+  new albTargetGroup.AlbTargetGroup(stack.context, id, {
+    name: `alb-tg-${hashString(name).slice(0, 12)}`,
+    port: config.port,
+    protocol: 'HTTP',
+    targetType: 'ip',
+    vpcId: vpc.id,
+    provider: providerInstance,
+    dependsOn: [loadBalancer],
+    healthCheck: {
+      enabled: true,
+      healthyThreshold: config.healthCheck.healthyThreshold,
+      interval: config.healthCheck.interval,
+      timeout: config.healthCheck.timeout,
+      path: config.healthCheck.path,
+      matcher: config.healthCheck.matcher,
+      protocol: 'HTTP',
+      unhealthyThreshold: config.healthCheck.unhealthyThreshold,
+    },
+  })
+
+// The DNS records of the domains that every load balancer serves, shared by the applications
+// that are routed by path under the same domain
+const domainRecords = new WeakMap<alb.Alb, Map<string, route53Record.Route53Record[]>>()
+
+// The load balancers that took over the listeners the applications used to have of their own
+const movedListeners = new WeakSet<alb.Alb>()
+
+/**
+ * Moves the HTTP and HTTPS listeners that the application used to have of its own to the ones
+ * of the load balancer. A load balancer could only have one listener per port back then,
+ * so the listeners are only moved from the first application that is routed through it
+ *
+ * @param {AwsApplicationProvisionable} provisionable the application's provisionable
+ * @param {Stack} stack the stack to deploy the resources to
+ */
+const moveListeners = (
+  { legacyResourceId, requirements: { loadBalancer, listeners } }: AwsApplicationProvisionable,
+  stack: Stack,
+) => {
+  if (movedListeners.has(loadBalancer)) {
+    return
+  }
+
+  movedListeners.add(loadBalancer)
+
+  Object.entries(listeners).forEach(
+    ([protocol, { terraformResourceType: type, friendlyUniqueId }]) =>
+      stack.move(`${type}.${legacyResourceId}_listener_${protocol}`, `${type}.${friendlyUniqueId}`),
+  )
+}
+
+/**
+ * Points the application's domain to the load balancer. The records are registered once
+ * per domain, by the first application that uses it, and are shared by the rest
+ *
+ * @param {AwsApplicationProvisionable} provisionable the application's provisionable
+ * @param {String} domain the domain to point to the load balancer
+ * @param {Stack} stack the stack to deploy the resources to
+ * @returns {route53Record.Route53Record[]} the DNS records of the domain
+ */
+const registerDnsRecords = (
+  {
+    config,
+    resourceId,
+    requirements: { loadBalancer, dnsZone, providerInstance },
+  }: AwsApplicationProvisionable,
+  domain: string,
+  stack: Stack,
+): route53Record.Route53Record[] => {
+  const records =
+    domainRecords.get(loadBalancer) || new Map<string, route53Record.Route53Record[]>()
+  const existing = records.get(domain)
+
+  if (existing) {
+    return existing
+  }
+
+  const isTld = domain === getTopLevelDomain(domain)
+  const dnsRecords = [
+    new route53Record.Route53Record(stack.context, `${resourceId}_dns_record`, {
+      name: domain,
+      zoneId: dnsZone.id,
+      provider: providerInstance,
+      allowOverwrite: true,
+      ...(isTld
+        ? {
+            type: 'A',
+            alias: {
+              name: loadBalancer.dnsName,
+              zoneId: dnsZone.id,
+              evaluateTargetHealth: true,
+            },
+          }
+        : { type: 'CNAME', ttl: 3600, records: [loadBalancer.dnsName] }),
+    }),
+  ]
+
+  if (config.www && isTopLevelDomain(domain)) {
+    dnsRecords.push(
+      new route53Record.Route53Record(stack.context, `${resourceId}_dns_record_www`, {
+        name: `www.${domain}`,
+        zoneId: dnsZone.id,
+        allowOverwrite: true,
+        type: 'CNAME',
+        ttl: 3600,
+        records: [loadBalancer.dnsName],
+        provider: providerInstance,
+      }),
+    )
+  }
+
+  domainRecords.set(loadBalancer, records.set(domain, dnsRecords))
+
+  return dnsRecords
+}
+
+/**
+ * Sets up CodeDeploy to shift the traffic from the running tasks (blue) to the ones
+ * of a new deployment (green), once they pass their health checks on the test listener
+ *
+ * @param {AwsApplicationProvisionable} provisionable the application's provisionable
+ * @param {ecsService.EcsService} service the ECS service to deploy
+ * @param {albTargetGroup.AlbTargetGroup} targetGroup the target group the service registers to
+ * @param {Stack} stack the stack to deploy the resources to
+ * @returns {Object} the green target group, the test listener and the deployment group
+ */
+const deployBlueGreen = (
+  provisionable: AwsApplicationProvisionable,
+  service: ecsService.EcsService,
+  targetGroup: albTargetGroup.AlbTargetGroup | undefined,
+  stack: Stack,
+): Pick<AwsApplicationResources, 'greenTargetGroup' | 'testListener' | 'deploymentGroup'> => {
+  const {
+    config,
+    resourceId,
+    requirements: { cluster, loadBalancer, listener, providerInstance },
+  } = provisionable
+
+  if (config.deployment.strategy !== 'blueGreen' || !targetGroup) {
+    return {}
+  }
+
+  const greenTargetGroup = registerTargetGroup(
+    provisionable,
+    `${resourceId}_target_group_green`,
+    `${config.name}-green`,
+    stack,
+  )
+
+  // The load balancer's own security group only opens the HTTP(S) ports, so the test listener is
+  // only reachable through the VPC's default security group, ie. by resources within the VPC
+  const testListener = new albListener.AlbListener(stack.context, `${resourceId}_test_listener`, {
+    loadBalancerArn: loadBalancer.arn,
+    provider: providerInstance,
+    port: config.deployment.testPort,
+    protocol: 'HTTP',
+    defaultAction: [{ type: 'forward', targetGroupArn: targetGroup.arn }],
+    // CodeDeploy switches the target groups of the listener on every deployment
+    lifecycle: { ignoreChanges: ['default_action'] },
+  })
+
+  const assumeRolePolicy = new dataAwsIamPolicyDocument.DataAwsIamPolicyDocument(
+    stack.context,
+    `${resourceId}_deployment_assume_role_policy`,
+    {
+      provider: providerInstance,
+      statement: [
+        {
+          effect: 'Allow',
+          actions: ['sts:AssumeRole'],
+          principals: [{ type: 'Service', identifiers: ['codedeploy.amazonaws.com'] }],
+        },
+      ],
+    },
+  )
+
+  const deploymentRole = new iamRole.IamRole(stack.context, `${resourceId}_deployment_role`, {
+    provider: providerInstance,
+    name: camelCase(`${config.name}-${stack.name}-deployment-role`),
+    assumeRolePolicy: assumeRolePolicy.json,
+  })
+
+  const deploymentRolePolicy = new iamRolePolicyAttachment.IamRolePolicyAttachment(
+    stack.context,
+    `${resourceId}_deployment_role_policy_attachment`,
+    {
+      provider: providerInstance,
+      role: deploymentRole.name,
+      policyArn: 'arn:aws:iam::aws:policy/AWSCodeDeployRoleForECS',
+    },
+  )
+
+  const deploymentName = getDeploymentGroupName(config.name, stack.name)
+
+  const application = new codedeployApp.CodedeployApp(
+    stack.context,
+    `${resourceId}_deployment_app`,
+    {
+      name: deploymentName,
+      computePlatform: 'ECS',
+      provider: providerInstance,
+    },
+  )
+
+  const deploymentGroup = new codedeployDeploymentGroup.CodedeployDeploymentGroup(
+    stack.context,
+    `${resourceId}_deployment_group`,
+    {
+      appName: application.name,
+      deploymentGroupName: deploymentName,
+      deploymentConfigName: 'CodeDeployDefault.ECSAllAtOnce',
+      serviceRoleArn: deploymentRole.arn,
+      provider: providerInstance,
+      dependsOn: [deploymentRolePolicy],
+      autoRollbackConfiguration: { enabled: true, events: ['DEPLOYMENT_FAILURE'] },
+      deploymentStyle: { deploymentOption: 'WITH_TRAFFIC_CONTROL', deploymentType: 'BLUE_GREEN' },
+      ecsService: { clusterName: cluster.name, serviceName: service.name },
+      blueGreenDeploymentConfig: {
+        deploymentReadyOption: { actionOnTimeout: 'CONTINUE_DEPLOYMENT' },
+        terminateBlueInstancesOnDeploymentSuccess: {
+          action: 'TERMINATE',
+          terminationWaitTimeInMinutes: config.deployment.terminationWait,
+        },
+      },
+      loadBalancerInfo: {
+        targetGroupPairInfo: {
+          prodTrafficRoute: { listenerArns: [listener.arn] },
+          testTrafficRoute: { listenerArns: [testListener.arn] },
+          targetGroup: [{ name: targetGroup.name }, { name: greenTargetGroup.name }],
+        },
+      },
+    },
+  )
+
+  return { greenTargetGroup, testListener, deploymentGroup }
+}
+
+/**
+ * Runs the application's task on the cluster on a schedule, overriding the container's command
+ *
+ * @param {AwsApplicationProvisionable} provisionable the application's provisionable
+ * @param {ecsTaskDefinition.EcsTaskDefinition} taskDefinition the task definition to run
+ * @param {ecsService.EcsServiceNetworkConfiguration} networkConfiguration the tasks' networking
+ * @param {Stack} stack the stack to deploy the resources to
+ * @returns {Object} the scheduling rules and the role that EventBridge runs the tasks with
+ */
+const scheduleTasks = (
+  provisionable: AwsApplicationProvisionable,
+  taskDefinition: ecsTaskDefinition.EcsTaskDefinition,
+  networkConfiguration: ecsService.EcsServiceNetworkConfiguration,
+  stack: Stack,
+): Pick<AwsApplicationResources, 'schedules' | 'schedulerRole'> => {
+  const {
+    config,
+    resourceId,
+    requirements: { cluster, taskExecutionRole, providerInstance },
+  } = provisionable
+
+  if (isEmpty(config.schedules)) {
+    return { schedules: [] }
+  }
+
+  const assumeRolePolicy = new dataAwsIamPolicyDocument.DataAwsIamPolicyDocument(
+    stack.context,
+    `${resourceId}_scheduler_assume_role_policy`,
+    {
+      provider: providerInstance,
+      statement: [
+        {
+          effect: 'Allow',
+          actions: ['sts:AssumeRole'],
+          principals: [{ type: 'Service', identifiers: ['events.amazonaws.com'] }],
+        },
+      ],
+    },
+  )
+
+  // The role is only allowed to run revisions of the application's task definition on the cluster
+  const policy = new dataAwsIamPolicyDocument.DataAwsIamPolicyDocument(
+    stack.context,
+    `${resourceId}_scheduler_policy`,
+    {
+      provider: providerInstance,
+      statement: [
+        {
+          sid: 'RunTasks',
+          effect: 'Allow',
+          actions: ['ecs:RunTask'],
+          resources: [`${taskDefinition.arnWithoutRevision}:*`],
+          condition: [{ test: 'ArnEquals', variable: 'ecs:cluster', values: [cluster.arn] }],
+        },
+        {
+          sid: 'PassTaskExecutionRole',
+          effect: 'Allow',
+          actions: ['iam:PassRole'],
+          resources: [taskExecutionRole.arn],
+        },
+      ],
+    },
+  )
+
+  const schedulerRole = new iamRole.IamRole(stack.context, `${resourceId}_scheduler_role`, {
+    provider: providerInstance,
+    name: camelCase(`${config.name}-${stack.name}-scheduler-role`),
+    assumeRolePolicy: assumeRolePolicy.json,
+    inlinePolicy: [
+      {
+        name: camelCase(`${config.name}-${stack.name}-scheduler-policy`),
+        policy: policy.json,
+      },
+    ],
+  })
+
+  const schedules = (config.schedules || []).map((schedule) => {
+    const scheduleId = `${resourceId}_schedule_${schedule.name}`
+
+    const rule = new cloudwatchEventRule.CloudwatchEventRule(stack.context, scheduleId, {
+      name: kebabCase(`${config.name}-${stack.name}-${schedule.name}`),
+      description: `Runs "${schedule.command.join(' ')}" for the ${config.name} application`,
+      scheduleExpression: schedule.expression,
+      provider: providerInstance,
+    })
+
+    new cloudwatchEventTarget.CloudwatchEventTarget(stack.context, `${scheduleId}_target`, {
+      rule: rule.name,
+      arn: cluster.arn,
+      roleArn: schedulerRole.arn,
+      provider: providerInstance,
+      input: JSON.stringify({
+        containerOverrides: [{ name: config.name, command: schedule.command }],
+      }),
+      ecsTarget: {
+        taskDefinitionArn: taskDefinition.arn,
+        launchType: 'FARGATE',
+        taskCount: 1,
+        networkConfiguration,
+      },
+    })
+
+    return rule
+  })
+
+  return { schedules, schedulerRole }
+}
+
+/**
+ * Scales the number of the service's tasks between the configured bounds, tracking the targets set
+ *
+ * @param {AwsApplicationProvisionable} provisionable the application's provisionable
+ * @param {ecsService.EcsService} service the ECS service to scale
+ * @param {albTargetGroup.AlbTargetGroup} targetGroup the target group the service registers to
+ * @param {Stack} stack the stack to deploy the resources to
+ * @returns {Object} the scalable target and the target tracking policies
+ */
+const scaleService = (
+  provisionable: AwsApplicationProvisionable,
+  service: ecsService.EcsService,
+  targetGroup: albTargetGroup.AlbTargetGroup | undefined,
+  stack: Stack,
+): Pick<AwsApplicationResources, 'scalingTarget' | 'scalingPolicies'> => {
+  const {
+    config: { name, autoscaling },
+    resourceId,
+    requirements: { cluster, loadBalancer, providerInstance },
+  } = provisionable
+
+  if (!autoscaling) {
+    return { scalingPolicies: [] }
+  }
+
+  const scalingTarget = new appautoscalingTarget.AppautoscalingTarget(
+    stack.context,
+    `${resourceId}_scaling_target`,
+    {
+      serviceNamespace: 'ecs',
+      resourceId: `service/${cluster.name}/${service.name}`,
+      scalableDimension: 'ecs:service:DesiredCount',
+      minCapacity: autoscaling.min,
+      maxCapacity: autoscaling.max,
+      provider: providerInstance,
+    },
+  )
+
+  const metrics = [
+    { metric: 'cpu', target: autoscaling.cpuTarget, type: 'ECSServiceAverageCPUUtilization' },
+    {
+      metric: 'memory',
+      target: autoscaling.memoryTarget,
+      type: 'ECSServiceAverageMemoryUtilization',
+    },
+    {
+      metric: 'requests',
+      target: autoscaling.requestsPerTarget,
+      type: 'ALBRequestCountPerTarget',
+      resourceLabel: targetGroup ? `${loadBalancer.arnSuffix}/${targetGroup.arnSuffix}` : undefined,
+    },
+  ]
+
+  const scalingPolicies = metrics
+    .filter(({ target }) => target !== undefined)
+    .map(
+      ({ metric, target, type, resourceLabel }) =>
+        new appautoscalingPolicy.AppautoscalingPolicy(
+          stack.context,
+          `${resourceId}_scaling_policy_${metric}`,
+          {
+            name: kebabCase(`${name}-${stack.name}-${metric}-scaling`),
+            policyType: 'TargetTrackingScaling',
+            serviceNamespace: scalingTarget.serviceNamespace,
+            resourceId: scalingTarget.resourceId,
+            scalableDimension: scalingTarget.scalableDimension,
+            provider: providerInstance,
+            targetTrackingScalingPolicyConfiguration: {
+              targetValue: target as number,
+              predefinedMetricSpecification: { predefinedMetricType: type, resourceLabel },
+            },
+          },
+        ),
+    )
+
+  return { scalingTarget, scalingPolicies }
+}
+
 const deployApplication = (
   provisionable: AwsApplicationProvisionable,
   stack: Stack,
@@ -176,19 +810,77 @@ const deployApplication = (
     resourceId,
     requirements: {
       vpc,
-      dnsZone,
       repository,
       cluster,
+      subnets,
       publicSubnets,
+      natGateway,
       logGroup,
       taskExecutionRole,
-      loadBalancer,
       certificate,
       providerInstance,
       loadBalancerSecurityGroup,
+      listener,
+      kmsKey,
+      linkedServices = [],
+      volumes: volumeRequirements = [],
     },
   } = provisionable
 
+  // Workers run in the private subnets and can only reach the internet through the NAT gateway
+  if (config.worker && !natGateway) {
+    throw new Error(
+      `The worker "${config.name}" runs in the private subnets, which need a NAT gateway. Please enable "nat" on the networking service`,
+    )
+  }
+
+  if (config.deploymentTask && !has(config.tasks, config.deploymentTask)) {
+    throw new Error(
+      `The application "${config.name}" runs the task "${config.deploymentTask}" on deployment, which is not set`,
+    )
+  }
+
+  if (config.autoscaling && config.autoscaling.max < config.autoscaling.min) {
+    throw new Error(
+      `The application "${config.name}" scales up to fewer nodes than its minimum, please make sure "max" is not less than "min"`,
+    )
+  }
+
+  const { healthCheck } = config
+  const isBlueGreen = config.deployment.strategy === 'blueGreen'
+
+  if (healthCheck.timeout >= healthCheck.interval) {
+    throw new Error(
+      `The health check timeout of the application "${config.name}" should be less than its interval`,
+    )
+  }
+
+  const fileSystems: Dictionary<efsFileSystem.EfsFileSystem> = Object.assign(
+    {},
+    ...volumeRequirements,
+  )
+  const volumes = (config.volumes || []).map((volume) => {
+    const fileSystem = fileSystems[volume.name]
+
+    if (!fileSystem) {
+      throw new Error(
+        `The application "${config.name}" mounts the volume "${volume.name}" which is not set`,
+      )
+    }
+
+    return { ...volume, fileSystem }
+  })
+
+  // Variables defined in the configuration take precedence over the ones of the linked services
+  const linked = mergeConnections(linkedServices)
+  const configured = [
+    ...Object.keys(config.environment || {}),
+    ...Object.keys(config.secrets || {}),
+  ]
+  const environment = { ...omit(linked.environment, configured), ...config.environment }
+  const secrets = { ...omit(linked.secrets, configured), ...config.secrets }
+  const configuredSecretArns = Object.values(config.secrets || {})
+
   const containerDefinition = {
     name: config.name,
     image: config.image ? config.image : `${repository.repositoryUrl}/${config.name}:latest`,
@@ -206,133 +898,97 @@ const deployApplication = (
         'awslogs-stream-prefix': config.name,
       },
     },
+    environment: Object.entries(environment).map(([name, value]) => ({ name, value })),
+    secrets: Object.entries(secrets).map(([name, valueFrom]) => ({ name, valueFrom })),
     ...(config.port ? { portMappings: [{ containerPort: config.port }] } : null),
+    ...(config.entrypoint ? { entryPoint: config.entrypoint } : null),
+    ...(config.command ? { command: config.command } : null),
+    ...(healthCheck.command
+      ? {
+          healthCheck: {
+            command: healthCheck.command,
+            interval: healthCheck.interval,
+            timeout: healthCheck.timeout,
+            retries: healthCheck.unhealthyThreshold,
+            startPeriod: healthCheck.gracePeriod,
+          },
+        }
+      : null),
+    mountPoints: volumes.map(({ name, path, readOnly }) => ({
+      sourceVolume: name,
+      containerPath: path,
+      readOnly,
+    })),
   }
 
+  const secretsPolicyAttachment = isEmpty(secrets)
+    ? undefined
+    : grantSecretsReadAccess(
+        taskExecutionRole,
+        {
+          // Secrets Manager ARNs may contain a JSON key and version suffix, which the policy omits
+          secrets: [
+            ...linked.secretArns,
+            ...configuredSecretArns
+              .filter((arn) => arn.split(':')[2] === 'secretsmanager')
+              .map((arn) => arn.split(':').slice(0, 7).join(':')),
+          ],
+          parameters: configuredSecretArns.filter((arn) => arn.split(':')[2] === 'ssm'),
+          // The secrets of the linked databases are encrypted using the provider's KMS key
+          kmsKeys: linked.secretArns.length ? [kmsKey.arn] : [],
+        },
+        resourceId,
+        stack,
+        providerInstance,
+      )
+
   const taskDefinition = new ecsTaskDefinition.EcsTaskDefinition(
     stack.context,
     `${resourceId}_task_definition`,
     {
       networkMode: 'awsvpc',
       provider: providerInstance,
-      family: config.name,
+      family: getTaskDefinitionFamily(config.name, stack.name),
       requiresCompatibilities: ['FARGATE'],
       cpu: String(config.cpu * 1024),
       memory: String(config.memory * 1024),
       executionRoleArn: taskExecutionRole.arn,
       containerDefinitions: Fn.jsonencode([containerDefinition]),
+      volume: volumes.map(({ name, fileSystem }) => ({
+        name,
+        efsVolumeConfiguration: {
+          fileSystemId: fileSystem.id,
+          transitEncryption: 'ENABLED',
+        },
+      })),
+      dependsOn: secretsPolicyAttachment ? [secretsPolicyAttachment] : undefined,
     },
   )
 
   const serviceDependencies = []
-  const listeners: albListener.AlbListener[] = []
   const dnsRecords: route53Record.Route53Record[] = []
-  const securityGroups: string[] = [vpc.defaultSecurityGroupId]
   let targetGroup: albTargetGroup.AlbTargetGroup | undefined
+  let listenerRule: albListenerRule.AlbListenerRule | undefined
 
-  if (config.port) {
-    securityGroups.push(loadBalancerSecurityGroup.id)
-
-    targetGroup = new albTargetGroup.AlbTargetGroup(stack.context, `${resourceId}_target_group`, {
-      name: `alb-tg-${hashString(config.name).slice(0, 12)}`,
-      port: config.port,
-      protocol: 'HTTP',
-      targetType: 'ip',
-      vpcId: vpc.id,
-      provider: providerInstance,
-      dependsOn: [loadBalancer],
-      healthCheck: {
-        enabled: true,
-        healthyThreshold: 5,
-        interval: 30,
-        timeout: 10,
-        path: '/',
-        protocol: 'HTTP',
-        unhealthyThreshold: 3,
-      },
-    })
-
-    listeners.push(
-      new albListener.AlbListener(stack.context, `${resourceId}_listener_http`, {
-        loadBalancerArn: loadBalancer.arn,
-        provider: providerInstance,
-        dependsOn: [targetGroup],
-        port: 80,
-        protocol: 'HTTP',
-        defaultAction: [
-          {
-            type: 'redirect',
-            redirect: { port: '443', protocol: 'HTTPS', statusCode: 'HTTP_301' },
-          },
-        ],
-      }),
-      new albListener.AlbListener(stack.context, `${resourceId}_listener_https`, {
-        loadBalancerArn: loadBalancer.arn,
-        provider: providerInstance,
-        port: 443,
-        protocol: 'HTTPS',
-        certificateArn: certificate.arn,
-        dependsOn: [targetGroup, certificate],
-        defaultAction: [
-          {
-            targetGroupArn: targetGroup.arn,
-            type: 'forward',
-          },
-        ],
-      }),
-    )
-
-    serviceDependencies.push(targetGroup, ...listeners)
-
-    if (config.domain) {
-      const domain = config.domain.replace(/^www\.(.*)$/i, '$1')
-      const isTld = domain === getTopLevelDomain(domain)
-      dnsRecords.push(
-        new route53Record.Route53Record(stack.context, `${resourceId}_dns_record`, {
-          name: domain,
-          zoneId: dnsZone.id,
-          provider: providerInstance,
-          allowOverwrite: true,
-          ...(isTld
-            ? {
-                type: 'A',
-                alias: {
-                  name: loadBalancer.dnsName,
-                  zoneId: dnsZone.id,
-                  evaluateTargetHealth: true,
-                },
-              }
-            : { type: 'CNAME', ttl: 3600, records: [loadBalancer.dnsName] }),
-        }),
-      )
-
-      if (config.www && isTopLevelDomain(domain)) {
-        dnsRecords.push(
-          new route53Record.Route53Record(stack.context, `${resourceId}_dns_record_www`, {
-            name: `www.${domain}`,
-            zoneId: dnsZone.id,
-            type: 'CNAME',
-            ttl: 3600,
-            records: [loadBalancer.dnsName],
-            provider: providerInstance,
-          }),
-        )
-      }
-    }
-
-    const sg = new securityGroup.SecurityGroup(stack.context, `${resourceId}_security_group`, {
+  // The service's security group, which linked databases and caches allow connections from
+  const serviceSecurityGroup = new securityGroup.SecurityGroup(
+    stack.context,
+    `${resourceId}_security_group`,
+    {
       name: `${config.name}-security-group`,
       description: `Security group for the ${config.name} service`,
       vpcId: vpc.id,
       provider: providerInstance,
-      ingress: [
-        {
-          fromPort: config.port,
-          toPort: config.port,
-          protocol: 'tcp',
-          securityGroups: [vpc.defaultSecurityGroupId],
-        },
-      ],
+      ingress: config.port
+        ? [
+            {
+              fromPort: config.port,
+              toPort: config.port,
+              protocol: 'tcp',
+              securityGroups: [vpc.defaultSecurityGroupId],
+            },
+          ]
+        : [],
       egress: [
         {
           fromPort: 0,
@@ -342,11 +998,74 @@ const deployApplication = (
           ipv6CidrBlocks: ['::/0'],
         },
       ],
-    })
+    },
+  )
+
+  const securityGroups: string[] = [vpc.defaultSecurityGroupId, serviceSecurityGroup.id]
+
+  if (config.port) {
+    securityGroups.push(loadBalancerSecurityGroup.id)
 
-    securityGroups.push(sg.id)
+    targetGroup = registerTargetGroup(
+      provisionable,
+      `${resourceId}_target_group`,
+      config.name,
+      stack,
+    )
+
+    // Applications share the load balancer's listener, which routes requests by host and path
+    const route: ListenerRoute = { hosts: [], path: config.path }
+
+    if (config.domain) {
+      const domain = config.domain.replace(/^www\.(.*)$/i, '$1')
+      route.hosts.push(domain)
+
+      if (config.www && isTopLevelDomain(domain)) {
+        route.hosts.push(`www.${domain}`)
+      }
+    }
+
+    listenerRule = new albListenerRule.AlbListenerRule(
+      stack.context,
+      `${resourceId}_listener_rule`,
+      {
+        listenerArn: listener.arn,
+        provider: providerInstance,
+        dependsOn: certificate ? [certificate] : undefined,
+        action: [{ type: 'forward', targetGroupArn: targetGroup.arn }],
+        // CodeDeploy switches the target group of the rule on every blue/green deployment
+        lifecycle: isBlueGreen ? { ignoreChanges: ['action'] } : undefined,
+        condition: [
+          ...(route.hosts.length ? [{ hostHeader: { values: route.hosts } }] : []),
+          ...(route.path || !route.hosts.length
+            ? [{ pathPattern: { values: route.path ? [route.path, `${route.path}/*`] : ['/*'] } }]
+            : []),
+        ],
+      },
+    )
+
+    registerListenerRule(listener, listenerRule, route)
+    serviceDependencies.push(targetGroup, listenerRule)
+    moveListeners(provisionable, stack)
+
+    if (config.domain) {
+      const domain = config.domain.replace(/^www\.(.*)$/i, '$1')
+      dnsRecords.push(...registerDnsRecords(provisionable, domain, stack))
+    }
   }
 
+  const networkConfiguration: ecsService.EcsServiceNetworkConfiguration = {
+    securityGroups,
+    subnets: (config.worker ? subnets : publicSubnets).map((subnet) => subnet.id),
+    assignPublicIp: !config.worker,
+  }
+
+  const ignoredChanges = uniq([
+    ...(config.deploymentTask || isBlueGreen ? ['task_definition'] : []),
+    ...(isBlueGreen ? ['load_balancer'] : []),
+    ...(config.autoscaling ? ['desired_count'] : []),
+  ])
+
   const service = new ecsService.EcsService(stack.context, `${resourceId}_service`, {
     name: config.name,
     cluster: cluster.id,
@@ -354,13 +1073,25 @@ const deployApplication = (
     taskDefinition: taskDefinition.arn,
     launchType: 'FARGATE',
     schedulingStrategy: 'REPLICA',
-    desiredCount: config.nodes,
+    desiredCount: config.autoscaling
+      ? clamp(config.nodes, config.autoscaling.min, config.autoscaling.max)
+      : config.nodes,
     dependsOn: serviceDependencies,
-    networkConfiguration: {
-      securityGroups,
-      subnets: publicSubnets.map((subnet) => subnet.id),
-      assignPublicIp: true,
-    },
+    networkConfiguration,
+    // The grace period only applies to services behind a load balancer or with a container health check
+    healthCheckGracePeriodSeconds:
+      targetGroup || healthCheck.command ? healthCheck.gracePeriod : undefined,
+    deploymentMinimumHealthyPercent: config.deployment.minimumHealthyPercent,
+    deploymentMaximumPercent: config.deployment.maximumPercent,
+    deploymentController: { type: isBlueGreen ? 'CODE_DEPLOY' : 'ECS' },
+    // Stops a deployment whose tasks keep failing to start and rolls back to the previous one
+    deploymentCircuitBreaker: isBlueGreen
+      ? undefined
+      : { enable: config.deployment.circuitBreaker, rollback: config.deployment.circuitBreaker },
+    // The deployment task runs on the new task definition before the service is updated to use it,
+    // blue/green deployments are rolled out by CodeDeploy and
+    // the number of tasks of an autoscaled service is left to the scaling policies
+    lifecycle: isEmpty(ignoredChanges) ? undefined : { ignoreChanges: ignoredChanges },
     loadBalancer:
       targetGroup && config.port
         ? [
@@ -373,19 +1104,40 @@ const deployApplication = (
         : undefined,
   })
 
+  const { schedules, schedulerRole } = scheduleTasks(
+    provisionable,
+    taskDefinition,
+    networkConfiguration,
+    stack,
+  )
+
+  const { greenTargetGroup, testListener, deploymentGroup } = deployBlueGreen(
+    provisionable,
+    service,
+    targetGroup,
+    stack,
+  )
+
+  const { scalingTarget, scalingPolicies } = scaleService(
+    provisionable,
+    service,
+    targetGroup,
+    stack,
+  )
+
   const outputs: TerraformOutput[] = [
     new TerraformOutput(stack.context, `${resourceId}_task_definition_arn`, {
       value: taskDefinition.arn,
     }),
   ]
 
-  listeners.forEach((listener, idx) =>
+  if (listenerRule) {
     outputs.push(
-      new TerraformOutput(stack.context, `${resourceId}_listener_arn_${idx}`, {
-        value: listener.arn,
+      new TerraformOutput(stack.context, `${resourceId}_listener_rule_arn`, {
+        value: listenerRule.arn,
       }),
-    ),
-  )
+    )
+  }
 
   dnsRecords.forEach((record, idx) =>
     outputs.push(
@@ -397,9 +1149,18 @@ const deployApplication = (
 
   return {
     service,
-    listeners,
+    listenerRule,
     dnsRecords,
     taskDefinition,
+    securityGroup: serviceSecurityGroup,
+    schedules,
+    schedulerRole,
+    scalingTarget,
+    scalingPolicies,
+    greenTargetGroup,
+    testListener,
+    deploymentGroup,
+    secretsPolicyAttachment,
     outputs,
   }
 }
@@ -420,6 +1181,7 @@ const getApplicationService = (): AwsApplicationService =>
     behaviors.withAssociations(getNetworkingAssociations()),
     behaviors.withAssociations(getApplicationRequirements()),
     behaviors.withRegions(REGIONS),
+    behaviors.linkable(onServiceLinked, isConnectableService),
     behaviors.multiNode(),
     behaviors.monitored(),
     behaviors.connectable(),
@@ -448,6 +1210,18 @@ const getApplicationService = (): AwsApplicationService =>
             },
           },
         },
+        secrets: {
+          type: 'object',
+          description:
+            'The environment variables to expose from AWS Secrets Manager secrets or SSM parameters, referenced by their ARN',
+          patternProperties: {
+            '^[a-zA-Z0-9_]+$': {
+              type: 'string',
+              pattern: '^arn:aws[a-z-]*:(secretsmanager|ssm):',
+              errorMessage: 'Secrets should reference a Secrets Manager or SSM parameter ARN',
+            },
+          },
+        },
         domain: {
           type: 'string',
           pattern: getDomainMatcher(),
@@ -456,11 +1230,316 @@ const getApplicationService = (): AwsApplicationService =>
           type: 'boolean',
           default: true,
         },
+        path: {
+          type: 'string',
+          pattern: '^(/[a-zA-Z0-9._~-]+)+$',
+          description:
+            'The path prefix to route the requests to the application by, when sharing the load balancer',
+          errorMessage: {
+            pattern: 'The path should start with a slash and not end with one, eg. /api',
+          },
+        },
         image: {
           type: 'string',
         },
+        worker: {
+          type: 'boolean',
+          default: false,
+          description:
+            'Whether the application is a background worker, which runs in the private subnets and accepts no connections',
+        },
+        entrypoint: {
+          type: 'array',
+          minItems: 1,
+          items: { type: 'string' },
+          description: 'Overrides the entrypoint of the image',
+        },
+        command: {
+          type: 'array',
+          minItems: 1,
+          items: { type: 'string' },
+          description: 'Overrides the command of the image',
+        },
+        volumes: {
+          type: 'array',
+          default: [],
+          description: 'The volume services to mount on the application containers',
+          items: {
+            type: 'object',
+            additionalProperties: false,
+            required: ['name', 'path'],
+            properties: {
+              name: {
+                type: 'string',
+                description: 'The name of the volume service to mount',
+              },
+              path: {
+                type: 'string',
+                pattern: '^/',
+                description: 'The path to mount the volume at',
+              },
+              readOnly: {
+                type: 'boolean',
+                default: false,
+              },
+            },
+            errorMessage: {
+              required: 'Volumes should have a name and a path to mount at',
+            },
+          },
+        },
+        schedules: {
+          type: 'array',
+          default: [],
+          uniqueNames: true,
+          description: 'The commands to run as tasks on a schedule, using the application image',
+          errorMessage: {
+            uniqueNames: 'The schedules should have unique names',
+          },
+          items: {
+            type: 'object',
+            additionalProperties: false,
+            required: ['name', 'expression', 'command'],
+            properties: {
+              name: {
+                type: 'string',
+                pattern: '^[a-zA-Z0-9_-]+$',
+              },
+              expression: {
+                type: 'string',
+                pattern: '^(cron|rate)\\(.+\\)$',
+                description: 'The cron() or rate() expression to run the task on',
+                errorMessage: {
+                  pattern: 'The schedule expression should be a cron() or rate() expression',
+                },
+              },
+              command: {
+                type: 'array',
+                minItems: 1,
+                items: { type: 'string' },
+                description: 'The command to run the task with',
+              },
+            },
+          },
+        },
+        tasks: {
+          type: 'object',
+          default: {},
+          description:
+            'The named commands to run as one-off tasks using the application image, eg. database migrations',
+          propertyNames: {
+            pattern: '^[a-zA-Z0-9_-]+$',
+            errorMessage: 'Task names should only contain letters, numbers, dashes and underscores',
+          },
+          additionalProperties: {
+            type: 'array',
+            minItems: 1,
+            items: { type: 'string' },
+          },
+        },
+        deploymentTask: {
+          type: 'string',
+          description: 'The task to run before the service is updated on deployment',
+        },
+        autoscaling: {
+          type: 'object',
+          required: ['min', 'max'],
+          description:
+            'Scales the number of nodes between min and max, tracking the CPU, memory or request targets set',
+          properties: {
+            min: {
+              type: 'integer',
+              minimum: 1,
+              description: 'The minimum number of nodes to run',
+            },
+            max: {
+              type: 'integer',
+              minimum: 1,
+              description: 'The maximum number of nodes to run',
+            },
+            cpuTarget: {
+              type: 'number',
+              minimum: 1,
+              maximum: 100,
+              description: 'The average CPU utilization percentage to keep the service at',
+            },
+            memoryTarget: {
+              type: 'number',
+              minimum: 1,
+              maximum: 100,
+              description: 'The average memory utilization percentage to keep the service at',
+            },
+            requestsPerTarget: {
+              type: 'integer',
+              minimum: 1,
+              description: 'The number of load balancer requests per node to keep the service at',
+            },
+          },
+          anyOf: [
+            { required: ['cpuTarget'] },
+            { required: ['memoryTarget'] },
+            { required: ['requestsPerTarget'] },
+          ],
+          errorMessage: {
+            required: 'Autoscaling needs the minimum and maximum number of nodes',
+            anyOf: 'Autoscaling needs at least one of cpuTarget, memoryTarget or requestsPerTarget',
+          },
+        },
+        healthCheck: {
+          type: 'object',
+          default: {},
+          description: 'How the load balancer and the container check the health of the tasks',
+          properties: {
+            path: {
+              type: 'string',
+              default: '/',
+              pattern: '^/',
+              description: 'The path the load balancer requests to check the health of the tasks',
+            },
+            matcher: {
+              type: 'string',
+              default: '200',
+              pattern: '^[0-9]{3}(-[0-9]{3})?(,[0-9]{3}(-[0-9]{3})?)*$',
+              description: 'The HTTP codes of healthy responses, eg. 200,301 or 200-299',
+              errorMessage: {
+                pattern: 'The health check matcher should be a list or range of HTTP codes',
+              },
+            },
+            interval: {
+              type: 'integer',
+              default: 30,
+              minimum: 5,
+              maximum: 300,
+              description: 'The number of seconds between the health checks',
+            },
+            timeout: {
+              type: 'integer',
+              default: 10,
+              minimum: 2,
+              maximum: 60,
+              description: 'The number of seconds after which a health check fails',
+            },
+            healthyThreshold: {
+              type: 'integer',
+              default: 5,
+              minimum: 2,
+              maximum: 10,
+              description: 'The number of successful checks before a task is considered healthy',
+            },
+            unhealthyThreshold: {
+              type: 'integer',
+              default: 3,
+              minimum: 2,
+              maximum: 10,
+              description: 'The number of failed checks before a task is considered unhealthy',
+            },
+            gracePeriod: {
+              type: 'integer',
+              minimum: 0,
+              maximum: 300,
+              description:
+                'The number of seconds to ignore failed health checks for, after a task starts',
+            },
+            command: {
+              type: 'array',
+              minItems: 1,
+              items: { type: 'string' },
+              description:
+                'The command the container checks its health with, eg. [CMD-SHELL, curl -f http://localhost/healthz]',
+            },
+          },
+        },
+        deployment: {
+          type: 'object',
+          default: {},
+          description: 'How new versions of the application replace the running ones',
+          properties: {
+            strategy: {
+              type: 'string',
+              enum: ['rolling', 'blueGreen'],
+              default: 'rolling',
+              description:
+                'Whether ECS replaces the tasks gradually, or CodeDeploy shifts the traffic to a new set of tasks',
+            },
+            minimumHealthyPercent: {
+              type: 'integer',
+              default: 100,
+              minimum: 0,
+              maximum: 100,
+              description:
+                'The percentage of the nodes that should keep running during a deployment',
+            },
+            maximumPercent: {
+              type: 'integer',
+              default: 200,
+              minimum: 100,
+              maximum: 200,
+              description: 'The percentage of the nodes that can run during a deployment',
+            },
+            circuitBreaker: {
+              type: 'boolean',
+              default: true,
+              description:
+                'Whether to stop a rolling deployment whose tasks fail to start, and roll back to the previous one',
+            },
+            testPort: {
+              type: 'integer',
+              minimum: 1,
+              maximum: 65535,
+              not: { enum: [80, 443] },
+              description:
+                'The load balancer port to test the new tasks of a blue/green deployment on, before they receive traffic',
+              errorMessage: {
+                _: 'The test port should be a valid port, other than 80 and 443',
+              },
+            },
+            terminationWait: {
+              type: 'integer',
+              default: 5,
+              minimum: 0,
+              maximum: 2880,
+              description:
+                'The minutes to keep the previous tasks of a blue/green deployment around for, after the traffic shifts',
+            },
+          },
+        },
+        links: {
+          description:
+            'The database, cache and mailer services to connect to, their connection details are exposed as environment variables',
+        },
       },
       allOf: [
+        {
+          if: { properties: { worker: { const: true } }, required: ['worker'] },
+          then: { not: { anyOf: [{ required: ['port'] }, { required: ['domain'] }] } },
+          errorMessage:
+            'Worker applications accept no connections, so they cannot have a port or a domain',
+        },
+        {
+          if: {
+            properties: { autoscaling: { required: ['requestsPerTarget'] } },
+            required: ['autoscaling'],
+          },
+          then: { required: ['port'] },
+          errorMessage: 'Scaling on the requests per target needs the application to have a port',
+        },
+        {
+          if: {
+            properties: { deployment: { properties: { strategy: { const: 'blueGreen' } } } },
+            required: ['deployment'],
+          },
+          then: {
+            required: ['port'],
+            properties: { deployment: { required: ['testPort'] } },
+          },
+          errorMessage:
+            'Blue/green deployments need the application to have a port and the deployment to have a testPort',
+        },
+        {
+          if: { required: ['path'] },
+          then: { required: ['port'] },
+          errorMessage: 'Only applications with a port can be routed to by path',
+        },
         {
           if: { properties: { cpu: { enum: [0.25] } } },
           then: { properties: { memory: { enum: [0.5, 1, 2] } } },
@@ -15,10 +15,13 @@ import {
   iamRole,
   dataAwsIamPolicyDocument,
   ecrRepository,
+  iamPolicy,
+  iamRolePolicyAttachment,
 } from '@cdktf/provider-aws'
 import { getProviderAssociations } from '@aws/utils/getProviderAssociations'
-import { camelCase, kebabCase } from 'lodash'
+import { camelCase, kebabCase, uniq } from 'lodash'
 import { TerraformOutput } from 'cdktf'
+import type { provider as awsProvider } from '@cdktf/provider-aws'
 import type { Stack } from '@src/lib/stack'
 import type { BaseServiceAttributes, Provisionable, Service } from '@src/services/types'
 import type { AwsProviderAssociations } from '@aws/types'
@@ -182,6 +185,87 @@ export const resourceHandler = (
   }
 }
 
+export type SecretsAccess = {
+  secrets: string[]
+  parameters: string[]
+  kmsKeys: string[]
+}
+
+/**
+ * Grants the task execution role read access to the secrets that are exposed to a container
+ *
+ * @param {iamRole.IamRole} taskExecutionRole the cluster's task execution role
+ * @param {SecretsAccess} access the secret, SSM parameter and KMS key ARNs to grant access to
+ * @param {String} resourceId the resource id of the service the secrets belong to
+ * @param {Stack} stack the stack to deploy the resources to
+ * @param {awsProvider.AwsProvider} providerInstance the AWS provider instance
+ * @returns {iamRolePolicyAttachment.IamRolePolicyAttachment} the policy attachment
+ */
+export const grantSecretsReadAccess = (
+  taskExecutionRole: iamRole.IamRole,
+  { secrets, parameters, kmsKeys }: SecretsAccess,
+  resourceId: string,
+  stack: Stack,
+  providerInstance: awsProvider.AwsProvider,
+): iamRolePolicyAttachment.IamRolePolicyAttachment => {
+  const policyDocument = new dataAwsIamPolicyDocument.DataAwsIamPolicyDocument(
+    stack.context,
+    `${resourceId}_secrets_policy_document`,
+    {
+      provider: providerInstance,
+      statement: [
+        ...(secrets.length
+          ? [
+              {
+                sid: 'ReadSecrets',
+                effect: 'Allow',
+                actions: ['secretsmanager:GetSecretValue'],
+                resources: uniq(secrets),
+              },
+            ]
+          : []),
+        ...(parameters.length
+          ? [
+              {
+                sid: 'ReadParameters',
+                effect: 'Allow',
+                actions: ['ssm:GetParameters'],
+                resources: uniq(parameters),
+              },
+            ]
+          : []),
+        ...(kmsKeys.length
+          ? [
+              {
+                sid: 'DecryptSecrets',
+                effect: 'Allow',
+                actions: ['kms:Decrypt'],
+                resources: uniq(kmsKeys),
+              },
+            ]
+          : []),
+      ],
+    },
+  )
+
+  const policy = new iamPolicy.IamPolicy(stack.context, `${resourceId}_secrets_policy`, {
+    provider: providerInstance,
+    namePrefix: camelCase(`${resourceId}-secrets-policy`),
+    policy: policyDocument.json,
+    description: 'Read access to the secrets of an application service',
+  })
+
+  return new iamRolePolicyAttachment.IamRolePolicyAttachment(
+    stack.context,
+    `${resourceId}_secrets_policy_attachment`,
+    {
+      provider: providerInstance,
+      role: taskExecutionRole.name,
+      policyArn: policy.arn,
+    },
+  )
+}
+
 const getClusterService = (): AwsClusterService =>
   pipe(
     withHandler(resourceHandler),
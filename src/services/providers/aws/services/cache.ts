@@ -1,10 +1,10 @@
 import pipe from 'lodash/fp/pipe'
 import { SERVICE_TYPE, DEFAULT_PORT, PROVIDER } from '@src/constants'
 import { awsCacheAlarms } from '@aws/alerts/cache'
-import { getBaseService, getProfile } from '@services/utils'
+import { getBaseService, getPhysicalName, getProfile } from '@services/utils'
 import * as AWS from '@aws/constants'
 import * as behavior from '@services/behaviors'
-import { onServiceLinked } from '@aws/utils/onServiceLinked'
+import { isConnectingService, onConnectingServiceLinked } from '@aws/utils/onServiceLinked'
 import { onExternalLink } from '@aws/utils/onExternalLink'
 import { withAwsAlerts } from '@aws/utils/withAlerts'
 import {
@@ -143,11 +143,12 @@ const deployCaches = (provisionable: AwsCacheProvisionable, stack: Stack): AwsCa
     config,
     requirements: { providerInstance, subnets, vpc },
     resourceId,
+    legacyResourceId,
   } = provisionable
 
   const { cluster: clusterOptions, instance: instanceOptions, params } = getProfile(config)
 
-  const clusterName = kebabCase(`${config.name}-${stack.name}`)
+  const clusterName = kebabCase(`${getPhysicalName(config)}-${stack.name}`)
 
   const subnetGroup = new elasticacheSubnetGroup.ElasticacheSubnetGroup(
     stack.context,
@@ -173,7 +174,8 @@ const deployCaches = (provisionable: AwsCacheProvisionable, stack: Stack): AwsCa
     stack.context,
     `${resourceId}_log_group`,
     {
-      name: `${resourceId}-log-group`,
+      // The log group keeps the name it got when the resource ids were count-based
+      name: `${legacyResourceId}-log-group`,
     },
   )
 
@@ -288,7 +290,7 @@ const getCacheService = <T extends ServiceTypeChoice, E extends ElasticacheEngin
   return pipe(
     behavior.clustered(),
     behavior.withHandler(resourceHandler),
-    behavior.linkable(onServiceLinked),
+    behavior.linkable(onConnectingServiceLinked, isConnectingService),
     behavior.externallyLinkable(onExternalLink),
     behavior.monitored(),
     behavior.sizeable(constraints.sizes, AWS.DEFAULT_ELASTICACHE_INSTANCE_SIZE),
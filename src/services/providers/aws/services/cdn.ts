@@ -0,0 +1,501 @@
+import { pipe } from 'lodash/fp'
+import { fromPairs, kebabCase, snakeCase } from 'lodash'
+import { TerraformOutput } from 'cdktf'
+import {
+  cloudfrontDistribution,
+  cloudfrontOriginAccessControl,
+  dataAwsIamPolicyDocument,
+  route53Record,
+  s3BucketPolicy,
+} from '@cdktf/provider-aws'
+import { DEFAULT_RESOURCE_COMMENT, PROVIDER, SERVICE_TYPE } from '@src/constants'
+import { getBaseService } from '@src/services/utils'
+import { getDomainMatcher, getTopLevelDomain } from '@src/lib/domain'
+import * as behaviors from '@src/services/behaviors'
+import { getProviderAssociations } from '@aws/utils/getProviderAssociations'
+import { CDN_REGION } from '@aws/constants'
+import type { Dictionary } from 'lodash'
+import type { JsonSchema } from '@lib/schema'
+import type { acmCertificate, route53Zone, s3Bucket } from '@cdktf/provider-aws'
+import type { Stack } from '@src/lib/stack'
+import type {
+  BaseServiceAttributes,
+  Provisionable,
+  Service,
+  ServiceRequirement,
+} from '@src/services/types'
+import type { AwsProviderAssociations } from '@aws/types'
+import type { AwsApplicationProvisionable } from './application'
+import type { AwsDnsAttributes, AwsDnsProvisionable, AwsDnsResources } from './dns'
+import type { AwsObjectStoreProvisionable } from './objectStore'
+import type { AwsSSLAttributes, AwsSSLProvisionable, AwsSSLResources } from './ssl'
+
+export type AwsCdnOrigin = {
+  name: string
+  service: string
+  bucket?: string
+  path?: string
+}
+
+export type AwsCdnCacheBehavior = {
+  origin?: string
+  allowedMethods: string[]
+  cachedMethods: string[]
+  compress: boolean
+  viewerProtocolPolicy: 'allow-all' | 'https-only' | 'redirect-to-https'
+  minTtl: number
+  defaultTtl: number
+  maxTtl: number
+  forwardQueryString: boolean
+  forwardCookies: boolean
+  forwardHeaders: string[]
+}
+
+export type AwsCdnAttributes = BaseServiceAttributes &
+  behaviors.RegionalAttributes & {
+    provider: typeof PROVIDER.AWS
+    type: typeof SERVICE_TYPE.CDN
+    domain?: string
+    priceClass: 'PriceClass_All' | 'PriceClass_200' | 'PriceClass_100'
+    origins: AwsCdnOrigin[]
+    defaultBehavior: AwsCdnCacheBehavior
+    behaviors: (AwsCdnCacheBehavior & { path: string; origin: string })[]
+  }
+
+export type AwsCdnRequirements = {
+  buckets: ServiceRequirement<Dictionary<s3Bucket.S3Bucket>> & { multiple: true }
+  applications: ServiceRequirement<Dictionary<route53Record.Route53Record>> & { multiple: true }
+  dnsZone: ServiceRequirement<AwsDnsResources['zone'], typeof SERVICE_TYPE.DNS>
+  certificate: ServiceRequirement<AwsSSLResources['certificate'], typeof SERVICE_TYPE.SSL>
+}
+
+export type AwsCdnService = Service<AwsCdnAttributes, AwsProviderAssociations & AwsCdnRequirements>
+
+export type AwsCdnResources = {
+  distribution: cloudfrontDistribution.CloudfrontDistribution
+  originAccessControl?: cloudfrontOriginAccessControl.CloudfrontOriginAccessControl
+  bucketPolicies: s3BucketPolicy.S3BucketPolicy[]
+  dnsRecords: route53Record.Route53Record[]
+  outputs: TerraformOutput[]
+}
+
+export type AwsCdnProvisionable = Provisionable<AwsCdnService, AwsCdnResources>
+
+/**
+ * @param {AwsCdnAttributes} source the CDN's configuration
+ * @param {BaseServiceAttributes} linked the linked service's configuration
+ * @returns {Boolean} whether the linked service is used as an origin by the CDN
+ */
+const isOrigin = (source: AwsCdnAttributes, linked: BaseServiceAttributes): boolean =>
+  source.provider === linked.provider &&
+  (source.origins || []).some((origin) => origin.service === linked.name)
+
+export const getCdnRequirements = (): AwsCdnRequirements => ({
+  buckets: {
+    requirement: true,
+    multiple: true,
+    where: (source: AwsCdnAttributes, linked: BaseServiceAttributes) =>
+      linked.type === SERVICE_TYPE.OBJECT_STORAGE && isOrigin(source, linked),
+    handler: (prov: AwsObjectStoreProvisionable): Dictionary<s3Bucket.S3Bucket> =>
+      fromPairs(prov.config.buckets.map((cfg, idx) => [cfg.name, prov.provisions.buckets[idx]])),
+  },
+  applications: {
+    requirement: true,
+    multiple: true,
+    where: (source: AwsCdnAttributes, linked: BaseServiceAttributes) =>
+      linked.type === SERVICE_TYPE.APP && isOrigin(source, linked),
+    handler: (prov: AwsApplicationProvisionable): Dictionary<route53Record.Route53Record> => {
+      const [dnsRecord] = prov.provisions.dnsRecords
+
+      // CloudFront connects to the load balancer over HTTPS, which requires a matching domain
+      if (!dnsRecord) {
+        throw new Error(
+          `The "${prov.config.name}" application needs a domain and a port to be used as a CDN origin`,
+        )
+      }
+
+      return { [prov.config.name]: dnsRecord }
+    },
+  },
+  dnsZone: {
+    with: SERVICE_TYPE.DNS,
+    requirement: true,
+    optional: true,
+    where: (source: AwsCdnAttributes, linked: AwsDnsAttributes) =>
+      source.provider === linked.provider &&
+      Boolean(source.domain) &&
+      getTopLevelDomain(source.domain as string) === getTopLevelDomain(linked.domain),
+    handler: (prov: AwsDnsProvisionable): route53Zone.Route53Zone => prov.provisions.zone,
+  },
+  certificate: {
+    with: SERVICE_TYPE.SSL,
+    requirement: true,
+    optional: true,
+    where: (source: AwsCdnAttributes, linked: AwsSSLAttributes) =>
+      source.provider === linked.provider &&
+      source.domain === linked.domain &&
+      linked.region === CDN_REGION,
+    handler: (prov: AwsSSLProvisionable): acmCertificate.AcmCertificate =>
+      prov.provisions.certificate,
+  },
+})
+
+/**
+ * @param {AwsCdnCacheBehavior} behavior the cache behavior's configuration
+ * @param {String} targetOriginId the id of the origin that the behavior applies to
+ * @returns {cloudfrontDistribution.CloudfrontDistributionDefaultCacheBehavior} the cache behavior
+ */
+const getCacheBehavior = (
+  behavior: AwsCdnCacheBehavior,
+  targetOriginId: string,
+): cloudfrontDistribution.CloudfrontDistributionDefaultCacheBehavior => ({
+  targetOriginId,
+  allowedMethods: behavior.allowedMethods,
+  cachedMethods: behavior.cachedMethods,
+  compress: behavior.compress,
+  viewerProtocolPolicy: behavior.viewerProtocolPolicy,
+  minTtl: behavior.minTtl,
+  defaultTtl: behavior.defaultTtl,
+  maxTtl: behavior.maxTtl,
+  forwardedValues: {
+    queryString: behavior.forwardQueryString,
+    headers: behavior.forwardHeaders,
+    cookies: { forward: behavior.forwardCookies ? 'all' : 'none' },
+  },
+})
+
+export const resourceHandler = (
+  provisionable: AwsCdnProvisionable,
+  stack: Stack,
+): AwsCdnResources => {
+  const {
+    config,
+    resourceId,
+    requirements: {
+      providerInstance,
+      dnsZone,
+      certificate,
+      buckets: bucketRequirements = [],
+      applications: applicationRequirements = [],
+    },
+  } = provisionable
+
+  const buckets: Dictionary<s3Bucket.S3Bucket> = Object.assign({}, ...bucketRequirements)
+  const applications: Dictionary<route53Record.Route53Record> = Object.assign(
+    {},
+    ...applicationRequirements,
+  )
+
+  const originNames = config.origins.map((origin) => origin.name)
+  const { origin: defaultOrigin = originNames[0] } = config.defaultBehavior
+
+  ;[config.defaultBehavior, ...config.behaviors].forEach(({ origin = defaultOrigin }) => {
+    if (!originNames.includes(origin)) {
+      throw new Error(`The CDN "${config.name}" references the origin "${origin}" which is not set`)
+    }
+  })
+
+  // Buckets are accessed through an origin access control, so they don't need to be public
+  const originAccessControl = config.origins.some((origin) => origin.bucket)
+    ? new cloudfrontOriginAccessControl.CloudfrontOriginAccessControl(
+        stack.context,
+        `${resourceId}_origin_access_control`,
+        {
+          name: kebabCase(`${config.name}-${stack.name}`),
+          description: DEFAULT_RESOURCE_COMMENT,
+          originAccessControlOriginType: 's3',
+          signingBehavior: 'always',
+          signingProtocol: 'sigv4',
+          provider: providerInstance,
+        },
+      )
+    : undefined
+
+  const origins: cloudfrontDistribution.CloudfrontDistributionOrigin[] = config.origins.map(
+    (origin) => {
+      if (origin.bucket) {
+        const bucket = buckets[origin.bucket]
+
+        if (!bucket || !originAccessControl) {
+          throw new Error(
+            `The bucket "${origin.bucket}" is not provided by the "${origin.service}" service`,
+          )
+        }
+
+        return {
+          originId: origin.name,
+          originPath: origin.path,
+          domainName: bucket.bucketRegionalDomainName,
+          originAccessControlId: originAccessControl.id,
+        }
+      }
+
+      const dnsRecord = applications[origin.service]
+
+      if (!dnsRecord) {
+        throw new Error(
+          `The origin "${origin.name}" should reference an application, or an object store bucket`,
+        )
+      }
+
+      return {
+        originId: origin.name,
+        originPath: origin.path,
+        domainName: dnsRecord.fqdn,
+        customOriginConfig: {
+          httpPort: 80,
+          httpsPort: 443,
+          originProtocolPolicy: 'https-only',
+          originSslProtocols: ['TLSv1.2'],
+        },
+      }
+    },
+  )
+
+  const distribution = new cloudfrontDistribution.CloudfrontDistribution(
+    stack.context,
+    resourceId,
+    {
+      enabled: true,
+      isIpv6Enabled: true,
+      comment: DEFAULT_RESOURCE_COMMENT,
+      aliases: config.domain ? [config.domain] : undefined,
+      priceClass: config.priceClass,
+      provider: providerInstance,
+      origin: origins,
+      defaultCacheBehavior: getCacheBehavior(config.defaultBehavior, defaultOrigin),
+      orderedCacheBehavior: config.behaviors.map((behavior) => ({
+        ...getCacheBehavior(behavior, behavior.origin),
+        pathPattern: behavior.path,
+      })),
+      restrictions: {
+        geoRestriction: { restrictionType: 'none' },
+      },
+      viewerCertificate: config.domain
+        ? {
+            acmCertificateArn: certificate.arn,
+            sslSupportMethod: 'sni-only',
+            minimumProtocolVersion: 'TLSv1.2_2021',
+          }
+        : { cloudfrontDefaultCertificate: true },
+    },
+  )
+
+  // Allow the distribution to read from the buckets it uses as origins
+  const bucketPolicies = config.origins
+    .filter((origin) => origin.bucket)
+    .map(({ bucket: bucketName }) => {
+      const bucket = buckets[bucketName as string]
+      const id = `${resourceId}_${snakeCase(bucketName)}`
+
+      const policyDocument = new dataAwsIamPolicyDocument.DataAwsIamPolicyDocument(
+        stack.context,
+        `${id}_policy_document`,
+        {
+          provider: providerInstance,
+          statement: [
+            {
+              sid: 'AllowCloudFrontRead',
+              effect: 'Allow',
+              actions: ['s3:GetObject'],
+              resources: [`${bucket.arn}/*`],
+              principals: [{ type: 'Service', identifiers: ['cloudfront.amazonaws.com'] }],
+              condition: [
+                {
+                  test: 'StringEquals',
+                  variable: 'AWS:SourceArn',
+                  values: [distribution.arn],
+                },
+              ],
+            },
+          ],
+        },
+      )
+
+      return new s3BucketPolicy.S3BucketPolicy(stack.context, `${id}_policy`, {
+        bucket: bucket.id,
+        policy: policyDocument.json,
+        provider: providerInstance,
+      })
+    })
+
+  const dnsRecords: route53Record.Route53Record[] = config.domain
+    ? ['A', 'AAAA'].map(
+        (type) =>
+          new route53Record.Route53Record(
+            stack.context,
+            `${resourceId}_dns_record_${type.toLowerCase()}`,
+            {
+              name: config.domain as string,
+              type,
+              zoneId: dnsZone.id,
+              provider: providerInstance,
+              allowOverwrite: true,
+              alias: {
+                name: distribution.domainName,
+                zoneId: distribution.hostedZoneId,
+                evaluateTargetHealth: false,
+              },
+            },
+          ),
+      )
+    : []
+
+  const outputs = [
+    new TerraformOutput(stack.context, `${resourceId}_domain_name`, {
+      description: `The domain name of the "${config.name}" CDN`,
+      value: distribution.domainName,
+    }),
+  ]
+
+  return {
+    distribution,
+    originAccessControl,
+    bucketPolicies,
+    dnsRecords,
+    outputs,
+  }
+}
+
+const getCacheBehaviorSchema = (): JsonSchema<AwsCdnCacheBehavior> => ({
+  type: 'object',
+  properties: {
+    origin: {
+      type: 'string',
+      description: 'The name of the origin that the requests are forwarded to',
+    },
+    allowedMethods: {
+      type: 'array',
+      default: ['GET', 'HEAD'],
+      items: {
+        type: 'string',
+        enum: ['DELETE', 'GET', 'HEAD', 'OPTIONS', 'PATCH', 'POST', 'PUT'],
+      },
+    },
+    cachedMethods: {
+      type: 'array',
+      default: ['GET', 'HEAD'],
+      items: {
+        type: 'string',
+        enum: ['GET', 'HEAD', 'OPTIONS'],
+      },
+    },
+    compress: {
+      type: 'boolean',
+      default: true,
+    },
+    viewerProtocolPolicy: {
+      type: 'string',
+      enum: ['allow-all', 'https-only', 'redirect-to-https'],
+      default: 'redirect-to-https',
+    },
+    minTtl: {
+      type: 'number',
+      minimum: 0,
+      default: 0,
+    },
+    defaultTtl: {
+      type: 'number',
+      minimum: 0,
+      default: 3600,
+    },
+    maxTtl: {
+      type: 'number',
+      minimum: 0,
+      default: 86400,
+    },
+    forwardQueryString: {
+      type: 'boolean',
+      default: false,
+    },
+    forwardCookies: {
+      type: 'boolean',
+      default: false,
+    },
+    forwardHeaders: {
+      type: 'array',
+      default: [],
+      items: {
+        type: 'string',
+      },
+    },
+  },
+})
+
+const getCdnService = (): AwsCdnService =>
+  pipe(
+    behaviors.withHandler(resourceHandler),
+    behaviors.withAssociations(getProviderAssociations()),
+    behaviors.withAssociations(getCdnRequirements()),
+    behaviors.withRegions([CDN_REGION]),
+    behaviors.withSchema({
+      type: 'object',
+      required: ['origins'],
+      properties: {
+        type: {
+          description: 'Defines a CloudFront distribution',
+        },
+        domain: {
+          type: 'string',
+          pattern: getDomainMatcher(),
+        },
+        priceClass: {
+          type: 'string',
+          enum: ['PriceClass_All', 'PriceClass_200', 'PriceClass_100'],
+          default: 'PriceClass_100',
+        },
+        origins: {
+          type: 'array',
+          minItems: 1,
+          errorMessage: {
+            minItems: 'You should provide at least one origin',
+          },
+          items: {
+            type: 'object',
+            additionalProperties: false,
+            required: ['name', 'service'],
+            properties: {
+              name: {
+                type: 'string',
+                pattern: '^[a-zA-Z0-9_-]+$',
+              },
+              service: {
+                type: 'string',
+                description: 'The name of the application or object store service to serve',
+              },
+              bucket: {
+                type: 'string',
+                description: 'The bucket to serve, when the service is an object store',
+              },
+              path: {
+                type: 'string',
+                pattern: '^/',
+              },
+            },
+          },
+        },
+        defaultBehavior: {
+          ...getCacheBehaviorSchema(),
+          default: {},
+          description: 'The cache behavior for the requests, defaults to the first origin',
+        },
+        behaviors: {
+          type: 'array',
+          default: [],
+          items: {
+            ...getCacheBehaviorSchema(),
+            required: ['path', 'origin'],
+            properties: {
+              ...getCacheBehaviorSchema().properties,
+              path: {
+                type: 'string',
+                description: 'The path pattern that the cache behavior applies to, eg. /assets/*',
+              },
+            },
+          },
+        },
+      },
+    }),
+  )(getBaseService(PROVIDER.AWS, SERVICE_TYPE.CDN))
+
+export const AwsCdn = getCdnService()
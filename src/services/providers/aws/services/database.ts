@@ -4,10 +4,10 @@ import { TerraformOutput } from 'cdktf'
 import { dbInstance as rdsDbInstance, dbParameterGroup, dbSubnetGroup } from '@cdktf/provider-aws'
 import { SERVICE_TYPE, DEFAULT_PORT, PROVIDER, DEFAULT_RESOURCE_COMMENT } from '@src/constants'
 import { awsDatabaseAlarms } from '@aws/alerts/database'
-import { getBaseService, getProfile } from '@services/utils'
+import { getBaseService, getPhysicalName, getProfile } from '@services/utils'
 import * as AWS from '@aws/constants'
 import * as behavior from '@services/behaviors'
-import { onServiceLinked } from '@aws/utils/onServiceLinked'
+import { isConnectingService, onConnectingServiceLinked } from '@aws/utils/onServiceLinked'
 import { onExternalLink } from '@aws/utils/onExternalLink'
 import { withAwsAlerts } from '@aws/utils/withAlerts'
 import { getProviderAssociations } from '@aws/utils/getProviderAssociations'
@@ -106,7 +106,8 @@ const deployDatabases = (
     resourceId,
   } = provisionable
   const { instance, params } = getProfile(config)
-  const dbInstanceName = kebabCase(`${config.name}-${stack.name}`)
+  const physicalName = getPhysicalName(config)
+  const dbInstanceName = kebabCase(`${physicalName}-${stack.name}`)
 
   const subnetGroup = new dbSubnetGroup.DbSubnetGroup(stack.context, `${resourceId}_subnet_group`, {
     subnetIds: subnets.map((subnet) => subnet.id),
@@ -138,7 +139,7 @@ const deployDatabases = (
     dbSubnetGroupName: subnetGroup.name,
     manageMasterUserPassword: true,
     masterUserSecretKmsKeyId: kmsKey.id,
-    username: camelCase(`stackmate-${config.name}-root`),
+    username: camelCase(`stackmate-${physicalName}-root`),
     vpcSecurityGroupIds: [vpc.defaultSecurityGroupId],
     lifecycle: {
       createBeforeDestroy: true,
@@ -197,7 +198,7 @@ const getDatabaseService = <T extends AwsDbServiceType, E extends RdsEngine>(
 
   return pipe(
     behavior.withHandler(resourceHandler),
-    behavior.linkable(onServiceLinked),
+    behavior.linkable(onConnectingServiceLinked, isConnectingService),
     behavior.externallyLinkable(onExternalLink),
     behavior.monitored(),
     behavior.sizeable(constraints.sizes, AWS.DEFAULT_RDS_INSTANCE_SIZE),
@@ -0,0 +1,217 @@
+import { pipe } from 'lodash/fp'
+import { kebabCase } from 'lodash'
+import { TerraformOutput } from 'cdktf'
+import { dataAwsAmi, instance, keyPair, securityGroup } from '@cdktf/provider-aws'
+import { DEFAULT_SERVICE_STORAGE, PROVIDER, SERVICE_TYPE } from '@src/constants'
+import { getBaseService } from '@src/services/utils'
+import * as behaviors from '@src/services/behaviors'
+import { getProviderAssociations } from '@aws/utils/getProviderAssociations'
+import { getNetworkingAssociations } from '@aws/utils/getNetworkingAssociations'
+import { isConnectableService, onServiceLinked } from '@aws/utils/onServiceLinked'
+import { onExternalLink } from '@aws/utils/onExternalLink'
+import {
+  DEFAULT_EC2_INSTANCE_SIZE,
+  DEFAULT_EC2_OPERATING_SYSTEM,
+  EC2_AMI_FILTERS,
+  EC2_INSTANCE_SIZES,
+  REGIONS,
+} from '@aws/constants'
+import type { Stack } from '@src/lib/stack'
+import type { BaseServiceAttributes, Provisionable, Service } from '@src/services/types'
+import type {
+  AwsNetworkingAssociations,
+  AwsProviderAssociations,
+  Ec2OperatingSystem,
+} from '@aws/types'
+
+export type AwsInstanceAttributes = BaseServiceAttributes &
+  behaviors.RegionalAttributes &
+  behaviors.SizeableAttributes &
+  behaviors.StorableAttributes &
+  behaviors.ConnectableAttributes &
+  behaviors.LinkableAttributes &
+  behaviors.ExternallyLinkableAttributes & {
+    provider: typeof PROVIDER.AWS
+    type: typeof SERVICE_TYPE.INSTANCE
+    os: Ec2OperatingSystem
+    ami?: string
+    sshKey?: string
+    userData?: string
+  }
+
+export type AwsInstanceService = Service<
+  AwsInstanceAttributes,
+  AwsProviderAssociations &
+    AwsNetworkingAssociations &
+    behaviors.LinkableAssociations &
+    behaviors.ExternallyLinkableAssociations
+>
+
+export type AwsInstanceResources = {
+  instance: instance.Instance
+  securityGroup: securityGroup.SecurityGroup
+  keyPair?: keyPair.KeyPair
+  outputs: TerraformOutput[]
+}
+
+export type AwsInstanceProvisionable = Provisionable<AwsInstanceService, AwsInstanceResources>
+
+/**
+ * Provisions an EC2 instance in the public subnets
+ *
+ * @param {AwsInstanceProvisionable} provisionable the service's configuration
+ * @param {Stack} stack the stack to deploy
+ * @returns {AwsInstanceResources} the provisions generated
+ */
+export const resourceHandler = (
+  provisionable: AwsInstanceProvisionable,
+  stack: Stack,
+): AwsInstanceResources => {
+  const {
+    config,
+    resourceId,
+    requirements: { providerInstance, kmsKey, vpc, publicSubnets },
+  } = provisionable
+
+  const instanceName = kebabCase(`${config.name}-${stack.name}`)
+  let { ami } = config
+
+  if (!ami) {
+    const { owner, name } = EC2_AMI_FILTERS[config.os]
+
+    ami = new dataAwsAmi.DataAwsAmi(stack.context, `${resourceId}_ami`, {
+      mostRecent: true,
+      owners: [owner],
+      provider: providerInstance,
+      filter: [
+        { name: 'name', values: [name] },
+        { name: 'virtualization-type', values: ['hvm'] },
+      ],
+    }).id
+  }
+
+  const keyPairResource = config.sshKey
+    ? new keyPair.KeyPair(stack.context, `${resourceId}_key_pair`, {
+        keyName: instanceName,
+        publicKey: config.sshKey,
+        provider: providerInstance,
+      })
+    : undefined
+
+  // The instance's security group, which linked databases and caches allow connections from
+  const instanceSecurityGroup = new securityGroup.SecurityGroup(
+    stack.context,
+    `${resourceId}_security_group`,
+    {
+      name: `${config.name}-security-group`,
+      description: `Security group for the ${config.name} instance`,
+      vpcId: vpc.id,
+      provider: providerInstance,
+      egress: [
+        {
+          fromPort: 0,
+          toPort: 0,
+          protocol: '-1',
+          cidrBlocks: ['0.0.0.0/0'],
+          ipv6CidrBlocks: ['::/0'],
+        },
+      ],
+    },
+  )
+
+  const ec2Instance = new instance.Instance(stack.context, resourceId, {
+    ami,
+    instanceType: config.size,
+    subnetId: publicSubnets[0].id,
+    associatePublicIpAddress: true,
+    vpcSecurityGroupIds: [vpc.defaultSecurityGroupId, instanceSecurityGroup.id],
+    keyName: keyPairResource?.keyName,
+    userData: config.userData,
+    provider: providerInstance,
+    metadataOptions: {
+      httpEndpoint: 'enabled',
+      httpTokens: 'required',
+    },
+    rootBlockDevice: {
+      volumeSize: config.storage,
+      volumeType: 'gp3',
+      encrypted: true,
+      kmsKeyId: kmsKey.arn,
+    },
+    tags: { Name: instanceName },
+  })
+
+  const outputs = [
+    new TerraformOutput(stack.context, `${resourceId}_instance_id`, {
+      description: `The ID of the "${config.name}" instance`,
+      value: ec2Instance.id,
+    }),
+    new TerraformOutput(stack.context, `${resourceId}_public_ip`, {
+      description: `The public IP address of the "${config.name}" instance`,
+      value: ec2Instance.publicIp,
+    }),
+    new TerraformOutput(stack.context, `${resourceId}_private_ip`, {
+      description: `The private IP address of the "${config.name}" instance`,
+      value: ec2Instance.privateIp,
+    }),
+  ]
+
+  return {
+    instance: ec2Instance,
+    securityGroup: instanceSecurityGroup,
+    keyPair: keyPairResource,
+    outputs,
+  }
+}
+
+const getInstanceService = (): AwsInstanceService =>
+  pipe(
+    behaviors.withHandler(resourceHandler),
+    behaviors.withAssociations(getProviderAssociations()),
+    behaviors.withAssociations(getNetworkingAssociations()),
+    behaviors.withRegions(REGIONS),
+    behaviors.linkable(onServiceLinked, isConnectableService),
+    behaviors.externallyLinkable(onExternalLink),
+    behaviors.sizeable([...EC2_INSTANCE_SIZES], DEFAULT_EC2_INSTANCE_SIZE),
+    behaviors.storable(DEFAULT_SERVICE_STORAGE, { min: 8, max: 16384 }),
+    behaviors.connectable(22),
+    behaviors.withSchema({
+      type: 'object',
+      properties: {
+        type: {
+          description: 'Defines an EC2 instance',
+        },
+        os: {
+          type: 'string',
+          enum: Object.keys(EC2_AMI_FILTERS),
+          default: DEFAULT_EC2_OPERATING_SYSTEM,
+          description: 'The operating system to use the latest AMI of, when no AMI is set',
+        },
+        ami: {
+          type: 'string',
+          pattern: '^ami-[a-f0-9]{8,17}$',
+          description: 'The ID of the AMI to launch the instance from',
+          errorMessage: {
+            pattern: 'The AMI should be a valid AMI ID, eg. ami-0123456789abcdef0',
+          },
+        },
+        sshKey: {
+          type: 'string',
+          pattern: '^(ssh-(rsa|ed25519)|ecdsa-sha2-nistp(256|384|521)) ',
+          description: 'The public SSH key to import and allow access to the instance with',
+          errorMessage: {
+            pattern: 'The SSH key should be a valid public key',
+          },
+        },
+        userData: {
+          type: 'string',
+          description: 'The script to run when the instance launches',
+        },
+        port: {
+          description: 'The port to allow connections to from the external links',
+        },
+      },
+    }),
+  )(getBaseService(PROVIDER.AWS, SERVICE_TYPE.INSTANCE))
+
+export const AwsInstance = getInstanceService()
@@ -1,4 +1,5 @@
 import { pipe } from 'lodash/fp'
+import { sortBy } from 'lodash'
 import { getBaseService } from '@src/services/utils'
 import { PROVIDER, SERVICE_TYPE } from '@src/constants'
 import {
@@ -10,11 +11,18 @@ import {
 import { REGIONS } from '@aws/constants'
 import { getProviderAssociations } from '@aws/utils/getProviderAssociations'
 import { getNetworkingAssociations } from '@aws/utils/getNetworkingAssociations'
-import { alb, securityGroup } from '@cdktf/provider-aws'
+import { alb, albListener, albListenerCertificate, securityGroup } from '@cdktf/provider-aws'
 import { TerraformOutput } from 'cdktf'
+import type { acmCertificate } from '@cdktf/provider-aws'
 import type { Stack } from '@src/lib/stack'
-import type { BaseServiceAttributes, Provisionable, Service } from '@src/services/types'
+import type {
+  BaseServiceAttributes,
+  Provisionable,
+  Service,
+  ServiceRequirement,
+} from '@src/services/types'
 import type { AwsNetworkingAssociations, AwsProviderAssociations } from '@aws/types'
+import type { AwsSSLProvisionable, AwsSSLResources } from './ssl'
 
 export type AwsLoadBalancerAttributes = BaseServiceAttributes &
   RegionalAttributes & {
@@ -25,12 +33,19 @@ export type AwsLoadBalancerAttributes = BaseServiceAttributes &
 export type AwsLoadBalancerResources = {
   loadBalancer: alb.Alb
   securityGroup: securityGroup.SecurityGroup
+  httpListener: albListener.AlbListener
+  httpsListener?: albListener.AlbListener
+  listenerCertificates: albListenerCertificate.AlbListenerCertificate[]
   outputs: TerraformOutput[]
 }
 
+export type AwsLoadBalancerRequirements = {
+  certificates: ServiceRequirement<AwsSSLResources['certificate']> & { multiple: true }
+}
+
 export type AwsLoadBalancerService = Service<
   AwsLoadBalancerAttributes,
-  AwsProviderAssociations & AwsNetworkingAssociations
+  AwsProviderAssociations & AwsNetworkingAssociations & AwsLoadBalancerRequirements
 >
 
 export type AwsLoadBalancerProvisionable = Provisionable<
@@ -38,6 +53,27 @@ export type AwsLoadBalancerProvisionable = Provisionable<
   AwsLoadBalancerResources
 >
 
+export const getLoadBalancerRequirements = (): AwsLoadBalancerRequirements => ({
+  certificates: {
+    requirement: true,
+    multiple: true,
+    where: (source: AwsLoadBalancerAttributes, linked: BaseServiceAttributes) =>
+      linked.type === SERVICE_TYPE.SSL &&
+      source.provider === linked.provider &&
+      source.region === linked.region,
+    handler: (prov: AwsSSLProvisionable): acmCertificate.AcmCertificate =>
+      prov.provisions.certificate,
+  },
+})
+
+/**
+ * Provisions an application load balancer, with the listeners that the applications add
+ * their routing rules to. Requests are redirected to HTTPS when there are certificates to serve
+ *
+ * @param {AwsLoadBalancerProvisionable} provisionable the service's configuration
+ * @param {Stack} stack the stack to deploy
+ * @returns {AwsLoadBalancerResources} the provisions generated
+ */
 export const resourceHandler = (
   provisionable: AwsLoadBalancerProvisionable,
   stack: Stack,
@@ -45,7 +81,7 @@ export const resourceHandler = (
   const {
     config,
     resourceId,
-    requirements: { vpc, providerInstance, publicSubnets },
+    requirements: { vpc, providerInstance, publicSubnets, certificates = [] },
   } = provisionable
 
   const sg = new securityGroup.SecurityGroup(stack.context, `${resourceId}_security_group`, {
@@ -91,6 +127,60 @@ export const resourceHandler = (
     },
   })
 
+  // Requests that match none of the applications' rules
+  const notFound: albListener.AlbListenerDefaultAction = {
+    type: 'fixed-response',
+    fixedResponse: { contentType: 'text/plain', messageBody: 'Not Found', statusCode: '404' },
+  }
+
+  // The certificates are sorted, so that the default one doesn't depend on the order they're declared in
+  const [defaultCertificate, ...additionalCertificates] = sortBy(
+    certificates,
+    ({ friendlyUniqueId }) => friendlyUniqueId,
+  )
+
+  const httpsListener = defaultCertificate
+    ? new albListener.AlbListener(stack.context, `${resourceId}_listener_https`, {
+        loadBalancerArn: loadBalancer.arn,
+        provider: providerInstance,
+        port: 443,
+        protocol: 'HTTPS',
+        certificateArn: defaultCertificate.arn,
+        defaultAction: [notFound],
+      })
+    : undefined
+
+  const httpListener = new albListener.AlbListener(stack.context, `${resourceId}_listener_http`, {
+    loadBalancerArn: loadBalancer.arn,
+    provider: providerInstance,
+    port: 80,
+    protocol: 'HTTP',
+    defaultAction: httpsListener
+      ? [
+          {
+            type: 'redirect',
+            redirect: { port: '443', protocol: 'HTTPS', statusCode: 'HTTP_301' },
+          },
+        ]
+      : [notFound],
+  })
+
+  // The listener picks the certificate that matches the requested host
+  const listenerCertificates = httpsListener
+    ? additionalCertificates.map(
+        (certificate, idx) =>
+          new albListenerCertificate.AlbListenerCertificate(
+            stack.context,
+            `${resourceId}_listener_certificate_${idx}`,
+            {
+              listenerArn: httpsListener.arn,
+              certificateArn: certificate.arn,
+              provider: providerInstance,
+            },
+          ),
+      )
+    : []
+
   const outputs = [
     new TerraformOutput(stack.context, `${resourceId}_loadbalancer_url`, {
       description: 'The URL for the load balancer',
@@ -101,6 +191,9 @@ export const resourceHandler = (
   return {
     loadBalancer,
     securityGroup: sg,
+    httpListener,
+    httpsListener,
+    listenerCertificates,
     outputs,
   }
 }
@@ -110,6 +203,7 @@ const getLoadBalancerService = (): AwsLoadBalancerService =>
     withHandler(resourceHandler),
     withAssociations(getProviderAssociations()),
     withAssociations(getNetworkingAssociations()),
+    withAssociations(getLoadBalancerRequirements()),
     withRegions(REGIONS),
   )(getBaseService(PROVIDER.AWS, SERVICE_TYPE.LOAD_BALANCER))
 
@@ -0,0 +1,337 @@
+import { pipe } from 'lodash/fp'
+import { kebabCase, upperFirst, camelCase } from 'lodash'
+import { Fn, TerraformOutput } from 'cdktf'
+import {
+  dataAwsIamPolicyDocument,
+  iamAccessKey,
+  iamUser,
+  iamUserPolicy,
+  route53Record,
+  sesConfigurationSet,
+  sesDomainDkim,
+  sesDomainIdentity,
+  sesDomainIdentityVerification,
+  sesDomainMailFrom,
+  sesEventDestination,
+  snsTopic,
+  snsTopicSubscription,
+} from '@cdktf/provider-aws'
+import { PROVIDER, SERVICE_TYPE } from '@src/constants'
+import { getBaseService } from '@src/services/utils'
+import { getDomainMatcher, getTopLevelDomain } from '@src/lib/domain'
+import * as behaviors from '@src/services/behaviors'
+import { getProviderAssociations } from '@aws/utils/getProviderAssociations'
+import { getSecret } from '@aws/utils/getAwsSecret'
+import { REGIONS } from '@aws/constants'
+import type { route53Zone, secretsmanagerSecret } from '@cdktf/provider-aws'
+import type { Stack } from '@src/lib/stack'
+import type {
+  BaseServiceAttributes,
+  Provisionable,
+  Service,
+  ServiceRequirement,
+} from '@src/services/types'
+import type { AwsProviderAssociations } from '@aws/types'
+import type { AwsDnsAttributes, AwsDnsProvisionable, AwsDnsResources } from './dns'
+
+// The number of DKIM tokens that SES generates for a domain
+const DKIM_TOKENS_COUNT = 3
+
+export type AwsMailerAttributes = BaseServiceAttributes &
+  behaviors.RegionalAttributes & {
+    provider: typeof PROVIDER.AWS
+    type: typeof SERVICE_TYPE.MAILER
+    domain: string
+    mailFrom: string
+    notifications: string[]
+  }
+
+export type AwsMailerRequirements = {
+  dnsZone: ServiceRequirement<AwsDnsResources['zone'], typeof SERVICE_TYPE.DNS>
+}
+
+export type AwsMailerService = Service<
+  AwsMailerAttributes,
+  AwsProviderAssociations & AwsMailerRequirements
+>
+
+export type AwsMailerResources = {
+  identity: sesDomainIdentity.SesDomainIdentity
+  mailFrom: sesDomainMailFrom.SesDomainMailFrom
+  configurationSet: sesConfigurationSet.SesConfigurationSet
+  topic: snsTopic.SnsTopic
+  user: iamUser.IamUser
+  secret: secretsmanagerSecret.SecretsmanagerSecret
+  dnsRecords: route53Record.Route53Record[]
+  outputs: TerraformOutput[]
+}
+
+export type AwsMailerProvisionable = Provisionable<AwsMailerService, AwsMailerResources>
+
+export const getMailerRequirements = (): AwsMailerRequirements => ({
+  dnsZone: {
+    with: SERVICE_TYPE.DNS,
+    requirement: true,
+    where: (source: AwsMailerAttributes, linked: AwsDnsAttributes) =>
+      source.provider === linked.provider &&
+      getTopLevelDomain(source.domain) === getTopLevelDomain(linked.domain),
+    handler: (prov: AwsDnsProvisionable): route53Zone.Route53Zone => prov.provisions.zone,
+  },
+})
+
+/**
+ * @param {AwsMailerAttributes} config the mailer's configuration
+ * @returns {String} the SMTP endpoint for the mailer's region
+ */
+export const getSmtpHost = (config: AwsMailerAttributes): string =>
+  `email-smtp.${config.region}.amazonaws.com`
+
+export const resourceHandler = (
+  provisionable: AwsMailerProvisionable,
+  stack: Stack,
+): AwsMailerResources => {
+  const {
+    config,
+    resourceId,
+    requirements: { providerInstance, kmsKey, dnsZone },
+  } = provisionable
+
+  const mailFromDomain = `${config.mailFrom}.${config.domain}`
+  const dnsRecords: route53Record.Route53Record[] = []
+
+  const identity = new sesDomainIdentity.SesDomainIdentity(stack.context, resourceId, {
+    domain: config.domain,
+    provider: providerInstance,
+  })
+
+  const verificationRecord = new route53Record.Route53Record(
+    stack.context,
+    `${resourceId}_verification_record`,
+    {
+      name: `_amazonses.${config.domain}`,
+      type: 'TXT',
+      ttl: 600,
+      records: [identity.verificationToken],
+      zoneId: dnsZone.zoneId,
+      provider: providerInstance,
+      allowOverwrite: true,
+    },
+  )
+
+  new sesDomainIdentityVerification.SesDomainIdentityVerification(
+    stack.context,
+    `${resourceId}_verification`,
+    {
+      domain: identity.id,
+      provider: providerInstance,
+      dependsOn: [verificationRecord],
+    },
+  )
+
+  const dkim = new sesDomainDkim.SesDomainDkim(stack.context, `${resourceId}_dkim`, {
+    domain: identity.domain,
+    provider: providerInstance,
+  })
+
+  for (let idx = 0; idx < DKIM_TOKENS_COUNT; idx++) {
+    const token = Fn.element(dkim.dkimTokens, idx)
+
+    dnsRecords.push(
+      new route53Record.Route53Record(stack.context, `${resourceId}_dkim_record_${idx}`, {
+        name: `${token}._domainkey.${config.domain}`,
+        type: 'CNAME',
+        ttl: 600,
+        records: [`${token}.dkim.amazonses.com`],
+        zoneId: dnsZone.zoneId,
+        provider: providerInstance,
+        allowOverwrite: true,
+      }),
+    )
+  }
+
+  const mailFrom = new sesDomainMailFrom.SesDomainMailFrom(
+    stack.context,
+    `${resourceId}_mail_from`,
+    {
+      domain: identity.domain,
+      mailFromDomain,
+      behaviorOnMxFailure: 'UseDefaultValue',
+      provider: providerInstance,
+    },
+  )
+
+  dnsRecords.push(
+    verificationRecord,
+    new route53Record.Route53Record(stack.context, `${resourceId}_mail_from_mx_record`, {
+      name: mailFromDomain,
+      type: 'MX',
+      ttl: 600,
+      records: [`10 feedback-smtp.${config.region}.amazonses.com`],
+      zoneId: dnsZone.zoneId,
+      provider: providerInstance,
+      allowOverwrite: true,
+    }),
+    new route53Record.Route53Record(stack.context, `${resourceId}_mail_from_spf_record`, {
+      name: mailFromDomain,
+      type: 'TXT',
+      ttl: 600,
+      records: ['v=spf1 include:amazonses.com ~all'],
+      zoneId: dnsZone.zoneId,
+      provider: providerInstance,
+      allowOverwrite: true,
+    }),
+  )
+
+  // Bounces and complaints are published to an SNS topic, optionally forwarded to e-mail addresses
+  const topic = new snsTopic.SnsTopic(stack.context, `${resourceId}_notifications`, {
+    name: kebabCase(`${config.name}-${stack.name}-notifications`),
+    provider: providerInstance,
+  })
+
+  config.notifications.forEach((email, idx) => {
+    new snsTopicSubscription.SnsTopicSubscription(
+      stack.context,
+      `${resourceId}_notifications_subscription_${idx}`,
+      {
+        topicArn: topic.arn,
+        protocol: 'email',
+        endpoint: email,
+        provider: providerInstance,
+      },
+    )
+  })
+
+  const configurationSet = new sesConfigurationSet.SesConfigurationSet(
+    stack.context,
+    `${resourceId}_configuration_set`,
+    {
+      name: kebabCase(`${config.name}-${stack.name}`),
+      provider: providerInstance,
+    },
+  )
+
+  new sesEventDestination.SesEventDestination(stack.context, `${resourceId}_event_destination`, {
+    name: kebabCase(`${config.name}-${stack.name}-notifications`),
+    configurationSetName: configurationSet.name,
+    enabled: true,
+    matchingTypes: ['bounce', 'complaint'],
+    snsDestination: { topicArn: topic.arn },
+    provider: providerInstance,
+  })
+
+  // SES uses the access key of an IAM user allowed to send e-mails as SMTP credentials
+  const user = new iamUser.IamUser(stack.context, `${resourceId}_user`, {
+    name: `Stackmate${upperFirst(camelCase(`${config.name}-${stack.name}`))}SmtpUser`,
+    provider: providerInstance,
+  })
+
+  const policyDocument = new dataAwsIamPolicyDocument.DataAwsIamPolicyDocument(
+    stack.context,
+    `${resourceId}_policy_document`,
+    {
+      provider: providerInstance,
+      statement: [
+        {
+          sid: 'SendEmails',
+          effect: 'Allow',
+          actions: ['ses:SendRawEmail', 'ses:SendEmail'],
+          resources: ['*'],
+          condition: [
+            {
+              test: 'StringLike',
+              variable: 'ses:FromAddress',
+              values: [`*@${config.domain}`],
+            },
+          ],
+        },
+      ],
+    },
+  )
+
+  new iamUserPolicy.IamUserPolicy(stack.context, `${resourceId}_user_policy`, {
+    user: user.name,
+    policy: policyDocument.json,
+    provider: providerInstance,
+  })
+
+  const accessKey = new iamAccessKey.IamAccessKey(stack.context, `${resourceId}_access_key`, {
+    user: user.name,
+    provider: providerInstance,
+  })
+
+  const { secret } = getSecret(
+    kebabCase(`${config.name}-${stack.name}-smtp-credentials`),
+    stack,
+    kmsKey,
+    {
+      value: Fn.jsonencode({
+        username: accessKey.id,
+        password: accessKey.sesSmtpPasswordV4,
+      }),
+    },
+  )
+
+  const outputs = [
+    new TerraformOutput(stack.context, `${resourceId}_smtp_host`, {
+      description: `The SMTP endpoint for the "${config.name}" mailer`,
+      value: getSmtpHost(config),
+    }),
+    new TerraformOutput(stack.context, `${resourceId}_smtp_credentials`, {
+      description: 'The SMTP credentials in secrets manager',
+      value: secret.arn,
+    }),
+  ]
+
+  return {
+    identity,
+    mailFrom,
+    configurationSet,
+    topic,
+    user,
+    secret,
+    dnsRecords,
+    outputs,
+  }
+}
+
+const getMailerService = (): AwsMailerService =>
+  pipe(
+    behaviors.withHandler(resourceHandler),
+    behaviors.withAssociations(getProviderAssociations()),
+    behaviors.withAssociations(getMailerRequirements()),
+    behaviors.withRegions(REGIONS),
+    behaviors.withSchema({
+      type: 'object',
+      required: ['domain'],
+      properties: {
+        type: {
+          description: 'Defines an SES mailer that sends e-mails from a domain',
+        },
+        domain: {
+          type: 'string',
+          pattern: getDomainMatcher(),
+          description: 'The domain to send e-mails from',
+        },
+        mailFrom: {
+          type: 'string',
+          default: 'mail',
+          pattern: '^[a-z0-9-]+$',
+          description: 'The subdomain of the domain to use as the MAIL FROM domain',
+        },
+        notifications: {
+          type: 'array',
+          default: [],
+          description: 'The e-mail addresses to notify about bounces and complaints',
+          items: {
+            type: 'string',
+            format: 'email',
+            errorMessage: {
+              format: 'The notification recipients should be valid email addresses',
+            },
+          },
+        },
+      },
+    }),
+  )(getBaseService(PROVIDER.AWS, SERVICE_TYPE.MAILER))
+
+export const AwsMailer = getMailerService()
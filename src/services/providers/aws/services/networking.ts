@@ -1,6 +1,8 @@
 import { ImportableResource, TerraformOutput } from 'cdktf'
 import {
+  eip,
   internetGateway,
+  natGateway as awsNatGateway,
   vpc as awsVpc,
   routeTable,
   routeTableAssociation,
@@ -109,6 +111,48 @@ export const resourceHandler = (
       ),
   )
 
+  // Allow outgoing connections from the private subnets (eg. for worker applications)
+  let natGateway: awsNatGateway.NatGateway | undefined
+
+  if (config.nat) {
+    const natIp = new eip.Eip(stack.context, `${resourceId}_nat_ip`, {
+      domain: 'vpc',
+      dependsOn: [gateway],
+    })
+
+    natGateway = new awsNatGateway.NatGateway(stack.context, `${resourceId}_nat_gateway`, {
+      allocationId: natIp.allocationId,
+      subnetId: publicSubnets[0].id,
+      dependsOn: [gateway],
+    })
+
+    const privateRoutes = new routeTable.RouteTable(
+      stack.context,
+      `${resourceId}_private_route_table`,
+      {
+        vpcId: vpc.id,
+        route: [
+          {
+            cidrBlock: '0.0.0.0/0',
+            natGatewayId: natGateway.id,
+          },
+        ],
+      },
+    )
+
+    subnets.forEach(
+      (subnet, idx) =>
+        new routeTableAssociation.RouteTableAssociation(
+          stack.context,
+          `${resourceId}_private_association${idx}`,
+          {
+            subnetId: subnet.id,
+            routeTableId: privateRoutes.id,
+          },
+        ),
+    )
+  }
+
   const outputs: TerraformOutput[] = [
     new TerraformOutput(stack.context, `${resourceId}_vpc_id`, {
       description: 'VPC ID',
@@ -138,6 +182,7 @@ export const resourceHandler = (
     vpc,
     subnets,
     gateway,
+    natGateway,
     outputs,
     publicSubnets,
   }
@@ -159,6 +204,12 @@ const getNetworkingService = (): AwsNetworkingService =>
           type: 'string',
           default: DEFAULT_VPC_IP,
         },
+        nat: {
+          type: 'boolean',
+          default: false,
+          description:
+            'Whether to provision a NAT gateway that allows outgoing connections from the private subnets',
+        },
       },
     }),
   )(getBaseService(PROVIDER.AWS, SERVICE_TYPE.NETWORKING))
@@ -60,10 +60,12 @@ export const resourceHandler = (
 ): AwsObjectStoreResources => {
   const {
     resourceId,
+    legacyResourceId,
     config,
     requirements: { providerInstance, kmsKey },
   } = provisionable
-  const prefix = upperFirst(camelCase(resourceId))
+  // The IAM user and policy keep the names they got when the resource ids were count-based
+  const prefix = upperFirst(camelCase(legacyResourceId))
   const userName = `Stackmate${prefix}StorageUser`
 
   const user = new iamUser.IamUser(stack.context, `${resourceId}_user`, {
@@ -2,14 +2,12 @@ import pipe from 'lodash/fp/pipe'
 import { S3Backend } from 'cdktf'
 import { SERVICE_TYPE, PROVIDER } from '@src/constants'
 import { REGIONS } from '@aws/constants'
-import { withRegions, withHandler, withSchema, withAssociations } from '@services/behaviors'
-import { getProviderAssociations } from '@aws/utils/getProviderAssociations'
+import { withRegions, withHandler, withSchema } from '@services/behaviors'
 import { getBaseService } from '@src/services/utils'
 import type { RegionalAttributes } from '@services/behaviors'
 import type { Stack } from '@lib/stack'
 import type { JsonSchema } from '@lib/schema'
 import type { Provisionable, BaseServiceAttributes, Service } from '@services/types'
-import type { AwsProviderAssociations } from '@aws/types'
 
 type AdditionalAttrs = {
   bucket: string
@@ -24,7 +22,8 @@ export type AwsStateAttributes = BaseServiceAttributes &
     provider: typeof PROVIDER.AWS
   }
 
-export type AwsStateService = Service<AwsStateAttributes, AwsProviderAssociations>
+// The backend is configured by terraform itself, so the state doesn't need a provider instance
+export type AwsStateService = Service<AwsStateAttributes>
 export type AwsStateResources = { backend: S3Backend }
 export type AwsStateProvisionable = Provisionable<AwsStateService, AwsStateResources>
 
@@ -81,7 +80,6 @@ export const getStateService = (): AwsStateService =>
     withRegions(REGIONS),
     withHandler(resourceHandler),
     withSchema<AwsStateAttributes, AdditionalAttrs>(getAdditionalPropertiesSchema()),
-    withAssociations(getProviderAssociations()),
   )(getBaseService(PROVIDER.AWS, SERVICE_TYPE.STATE))
 
 export const AwsState = getStateService()
@@ -0,0 +1,117 @@
+import { pipe } from 'lodash/fp'
+import { kebabCase } from 'lodash'
+import { TerraformOutput } from 'cdktf'
+import { efsFileSystem, efsMountTarget } from '@cdktf/provider-aws'
+import { PROVIDER, SERVICE_TYPE } from '@src/constants'
+import { getBaseService, getPhysicalName } from '@src/services/utils'
+import * as behaviors from '@src/services/behaviors'
+import { getProviderAssociations } from '@aws/utils/getProviderAssociations'
+import { getNetworkingAssociations } from '@aws/utils/getNetworkingAssociations'
+import { REGIONS } from '@aws/constants'
+import type { Stack } from '@src/lib/stack'
+import type { BaseServiceAttributes, Provisionable, Service } from '@src/services/types'
+import type { AwsNetworkingAssociations, AwsProviderAssociations } from '@aws/types'
+
+export type AwsVolumeAttributes = BaseServiceAttributes &
+  behaviors.RegionalAttributes & {
+    provider: typeof PROVIDER.AWS
+    type: typeof SERVICE_TYPE.VOLUME
+    performanceMode: 'generalPurpose' | 'maxIO'
+    throughputMode: 'bursting' | 'elastic'
+  }
+
+export type AwsVolumeService = Service<
+  AwsVolumeAttributes,
+  AwsProviderAssociations & AwsNetworkingAssociations
+>
+
+export type AwsVolumeResources = {
+  fileSystem: efsFileSystem.EfsFileSystem
+  mountTargets: efsMountTarget.EfsMountTarget[]
+  outputs: TerraformOutput[]
+}
+
+export type AwsVolumeProvisionable = Provisionable<AwsVolumeService, AwsVolumeResources>
+
+/**
+ * Provisions an EFS file system with a mount target in every subnet
+ *
+ * @param {AwsVolumeProvisionable} provisionable the service's configuration
+ * @param {Stack} stack the stack to deploy
+ * @returns {AwsVolumeResources} the provisions generated
+ */
+export const resourceHandler = (
+  provisionable: AwsVolumeProvisionable,
+  stack: Stack,
+): AwsVolumeResources => {
+  const {
+    config,
+    resourceId,
+    requirements: { providerInstance, kmsKey, vpc, subnets },
+  } = provisionable
+
+  const volumeName = kebabCase(`${getPhysicalName(config)}-${stack.name}`)
+  const fileSystem = new efsFileSystem.EfsFileSystem(stack.context, resourceId, {
+    creationToken: volumeName,
+    encrypted: true,
+    kmsKeyId: kmsKey.arn,
+    performanceMode: config.performanceMode,
+    throughputMode: config.throughputMode,
+    provider: providerInstance,
+    tags: { Name: volumeName },
+  })
+
+  // The applications run in the default security group as well, which allows NFS traffic among its members
+  const mountTargets = subnets.map(
+    (subnet, idx) =>
+      new efsMountTarget.EfsMountTarget(stack.context, `${resourceId}_mount_target_${idx}`, {
+        fileSystemId: fileSystem.id,
+        subnetId: subnet.id,
+        securityGroups: [vpc.defaultSecurityGroupId],
+        provider: providerInstance,
+      }),
+  )
+
+  const outputs = [
+    new TerraformOutput(stack.context, `${resourceId}_file_system_id`, {
+      description: `The ID of the "${config.name}" file system`,
+      value: fileSystem.id,
+    }),
+    new TerraformOutput(stack.context, `${resourceId}_dns_name`, {
+      description: `The DNS name of the "${config.name}" file system`,
+      value: fileSystem.dnsName,
+    }),
+  ]
+
+  return { fileSystem, mountTargets, outputs }
+}
+
+const getVolumeService = (): AwsVolumeService =>
+  pipe(
+    behaviors.withHandler(resourceHandler),
+    behaviors.withAssociations(getProviderAssociations()),
+    behaviors.withAssociations(getNetworkingAssociations()),
+    behaviors.withRegions(REGIONS),
+    behaviors.withSchema({
+      type: 'object',
+      properties: {
+        type: {
+          description: 'Defines an EFS volume that applications can mount',
+        },
+        performanceMode: {
+          type: 'string',
+          default: 'generalPurpose',
+          enum: ['generalPurpose', 'maxIO'],
+          description: 'The performance mode of the file system',
+        },
+        throughputMode: {
+          type: 'string',
+          default: 'bursting',
+          enum: ['bursting', 'elastic'],
+          description: 'The throughput mode of the file system',
+        },
+      },
+    }),
+  )(getBaseService(PROVIDER.AWS, SERVICE_TYPE.VOLUME))
+
+export const AwsVolume = getVolumeService()
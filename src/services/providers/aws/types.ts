@@ -21,6 +21,7 @@ import type {
   subnet,
   vpc,
   internetGateway,
+  natGateway,
 } from '@cdktf/provider-aws'
 
 export type AwsProviderResources = {
@@ -33,6 +34,7 @@ export type AwsProviderResources = {
 export type AwsNetworkingResources = {
   outputs: TerraformOutput[]
   gateway: internetGateway.InternetGateway
+  natGateway?: natGateway.NatGateway
   subnets: subnet.Subnet[]
   publicSubnets: subnet.Subnet[]
   vpc: vpc.Vpc
@@ -74,6 +76,7 @@ type NetworkingBaseAttributes = BaseServiceAttributes &
   RegionalAttributes & {
     provider: typeof PROVIDER.AWS
     type: typeof SERVICE_TYPE.NETWORKING
+    nat: boolean
   }
 
 export type AwsNetworkingAttributes = OneOfType<
@@ -114,5 +117,7 @@ export type AwsServiceConstraints = {
 
 export type RdsEngine = 'mariadb' | 'mysql' | 'postgres'
 export type ElasticacheEngine = 'redis' | 'memcached'
+export type Ec2OperatingSystem = 'amazon-linux-2023' | 'ubuntu-22.04' | 'ubuntu-24.04' | 'debian-12'
+export type Ec2AmiFilter = { owner: string; name: string }
 export type AwsDbServiceType = Extract<ServiceTypeChoice, 'mysql' | 'mariadb' | 'postgresql'>
 export type AwsCacheServiceType = Extract<ServiceTypeChoice, 'redis' | 'memcached'>
@@ -0,0 +1,40 @@
+import { elasticacheCluster, instance as ec2Instance } from '@cdktf/provider-aws'
+import type { securityGroup } from '@cdktf/provider-aws'
+import type { BaseProvisionable } from '@services/types'
+import type { AwsCacheResources } from '@aws/services/cache'
+import type { AwsDatabaseResources } from '@aws/services/database'
+import type { AwsInstanceResources } from '@aws/services/instance'
+
+/**
+ * Attaches a security group to the database, cache or EC2 instance of a provisionable
+ *
+ * @param {BaseProvisionable} provisionable the provisionable to attach the group to
+ * @param {securityGroup.SecurityGroup} group the security group to attach
+ */
+export const attachSecurityGroup = (
+  { provisions }: BaseProvisionable,
+  group: securityGroup.SecurityGroup,
+) => {
+  const { dbInstance, instance, cluster } = provisions as Partial<
+    Pick<AwsDatabaseResources, 'dbInstance'> &
+      Pick<AwsCacheResources, 'cluster'> & {
+        instance: AwsCacheResources['instance'] | AwsInstanceResources['instance']
+      }
+  >
+
+  if (dbInstance) {
+    dbInstance.vpcSecurityGroupIds = [...(dbInstance.vpcSecurityGroupIdsInput || []), group.id]
+  }
+
+  if (instance instanceof elasticacheCluster.ElasticacheCluster) {
+    instance.securityGroupIds = [...(instance.securityGroupIdsInput || []), group.id]
+  }
+
+  if (instance instanceof ec2Instance.Instance) {
+    instance.vpcSecurityGroupIds = [...(instance.vpcSecurityGroupIdsInput || []), group.id]
+  }
+
+  if (cluster) {
+    cluster.securityGroupIds = [...(cluster.securityGroupIdsInput || []), group.id]
+  }
+}
@@ -1,11 +1,10 @@
-import crypto from 'node:crypto'
 import {
   dataAwsSecretsmanagerRandomPassword,
   secretsmanagerSecret,
   secretsmanagerSecretVersion,
 } from '@cdktf/provider-aws'
-import { Fn, TerraformLocal, Token } from 'cdktf'
-import { isNumber, isString, merge, uniq } from 'lodash'
+import { TerraformLocal } from 'cdktf'
+import { isNumber, isString, merge, snakeCase, uniq } from 'lodash'
 import { DEFAULT_PASSWORD_LENGTH, isTestMode } from '@src/constants'
 import type { kmsKey } from '@cdktf/provider-aws'
 import type { Stack } from '@src/lib/stack'
@@ -26,7 +25,8 @@ export const getSecret = (
   version: secretsmanagerSecretVersion.SecretsmanagerSecretVersion
   value: TerraformLocal
 } => {
-  const resourceId = `secret_${secretName}_${crypto.randomBytes(8).toString('hex')}`
+  // The secret's name is unique in the stack, so the ids stay the same across deployments
+  const resourceId = `secret_${snakeCase(secretName)}`
 
   let value: TerraformLocal
 
@@ -69,7 +69,8 @@ export const getSecret = (
     `${resourceId}_secret_version`,
     {
       secretId: secret.id,
-      secretString: Fn.jsonencode(Token.asString(value)),
+      // The value is stored as-is, so that it can be referenced by services (eg. in ECS secrets)
+      secretString: value.asString,
       lifecycle: {
         ignoreChanges: ['secret_string'],
       },
@@ -0,0 +1,76 @@
+import { sortBy } from 'lodash'
+import { hashString } from '@src/lib/hash'
+import type { albListener, albListenerRule } from '@cdktf/provider-aws'
+
+export type ListenerRoute = {
+  hosts: string[]
+  path?: string
+}
+
+// Listener rule priorities range from 1 to 50000, the lower the priority the sooner a rule is evaluated
+const MAX_PRIORITY = 50000
+const MAX_PATH_DEPTH = 9
+const SPECIFICITY_LEVELS = (MAX_PATH_DEPTH + 1) * 2
+const BAND_SIZE = MAX_PRIORITY / SPECIFICITY_LEVELS
+
+// The rules registered to every listener, along with the routes they match
+const listenerRules = new WeakMap<
+  albListener.AlbListener,
+  { rule: albListenerRule.AlbListenerRule; route: ListenerRoute }[]
+>()
+
+/**
+ * Returns the priority of a listener rule, based on how specific its route is. Deeper paths are
+ * evaluated first, then routes matching a host come before the ones that match any host.
+ * Routes of the same specificity never overlap, so they get a priority based on their hash
+ * within their band, or the next one that is available when it is already assigned
+ *
+ * @param {ListenerRoute} route the hosts and path the rule matches
+ * @param {Set<Number>} assigned the priorities that are assigned to other rules of the listener
+ * @returns {Number} the priority of the rule
+ */
+export const getListenerRulePriority = (
+  { hosts, path = '' }: ListenerRoute,
+  assigned: Set<number>,
+): number => {
+  const depth = Math.min(path.split('/').filter(Boolean).length, MAX_PATH_DEPTH)
+  const band = SPECIFICITY_LEVELS - 1 - (depth * 2 + (hosts.length ? 1 : 0))
+  const offset = parseInt(hashString(`${hosts.join(',')}${path}`).slice(0, 8), 16) % BAND_SIZE
+
+  for (let idx = 0; idx < BAND_SIZE; idx += 1) {
+    const priority = band * BAND_SIZE + ((offset + idx) % BAND_SIZE) + 1
+
+    if (!assigned.has(priority)) {
+      return priority
+    }
+  }
+
+  throw new Error(`There are no listener rule priorities left for the route "${hosts}${path}"`)
+}
+
+/**
+ * Registers a rule to a listener and sets the priorities of the listener's rules. The rules are
+ * assigned their priorities in the order of their ids, so that the rules whose priorities
+ * collide get the same ones regardless of the order they are registered in
+ *
+ * @param {albListener.AlbListener} listener the listener the rule is registered to
+ * @param {albListenerRule.AlbListenerRule} rule the rule to register
+ * @param {ListenerRoute} route the hosts and path the rule matches
+ */
+export const registerListenerRule = (
+  listener: albListener.AlbListener,
+  rule: albListenerRule.AlbListenerRule,
+  route: ListenerRoute,
+) => {
+  const rules = [...(listenerRules.get(listener) || []), { rule, route }]
+  const assigned = new Set<number>()
+
+  listenerRules.set(listener, rules)
+
+  sortBy(rules, ({ rule: { friendlyUniqueId } }) => friendlyUniqueId).forEach((registered) => {
+    const priority = getListenerRulePriority(registered.route, assigned)
+
+    assigned.add(priority)
+    Object.assign(registered.rule, { priority })
+  })
+}
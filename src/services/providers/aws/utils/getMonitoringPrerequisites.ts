@@ -44,8 +44,7 @@ export const getMonitoringPrerequisites = (
   stack: Stack,
 ): AwsAlertPrerequisites => {
   const {
-    service: { type: targetType },
-    config: { name, region, monitoring },
+    config: { type: targetType, name, region, monitoring },
     requirements: { account, providerInstance },
   } = provisionable
 
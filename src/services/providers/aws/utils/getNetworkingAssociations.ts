@@ -1,6 +1,6 @@
 import { SERVICE_TYPE } from '@src/constants'
 import type { AwsNetworkingAssociations, AwsNetworkingProvisionable } from '@aws/types'
-import type { internetGateway, subnet, vpc } from '@cdktf/provider-aws'
+import type { internetGateway, natGateway, subnet, vpc } from '@cdktf/provider-aws'
 import type { BaseServiceAttributes } from '@services/types'
 
 const getVpcRequirement = (): AwsNetworkingAssociations['vpc'] => ({
@@ -29,9 +29,19 @@ const getGatewayRequirement = (): AwsNetworkingAssociations['gateway'] => ({
     prov.provisions.gateway,
 })
 
+const getNatGatewayRequirement = (): AwsNetworkingAssociations['natGateway'] => ({
+  with: SERVICE_TYPE.NETWORKING,
+  requirement: true,
+  where: (config: BaseServiceAttributes, linked: BaseServiceAttributes) =>
+    config.provider === linked.provider && config.region === linked.region,
+  handler: (prov: AwsNetworkingProvisionable): natGateway.NatGateway | undefined =>
+    prov.provisions.natGateway,
+})
+
 export const getNetworkingAssociations = (): AwsNetworkingAssociations => ({
   vpc: getVpcRequirement(),
   subnets: getSubnetsRequirement(false),
   gateway: getGatewayRequirement(),
+  natGateway: getNatGatewayRequirement(),
   publicSubnets: getSubnetsRequirement(true),
 })
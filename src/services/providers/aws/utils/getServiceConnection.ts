@@ -0,0 +1,190 @@
+import { fromPairs, snakeCase } from 'lodash'
+import { SERVICE_TYPE } from '@src/constants'
+import { getSmtpHost } from '@aws/services/mailer'
+import type { AwsDatabaseResources } from '@aws/services/database'
+import type { AwsCacheResources } from '@aws/services/cache'
+import type { AwsMailerAttributes, AwsMailerResources } from '@aws/services/mailer'
+import type { RdsEngine } from '@aws/types'
+import type { ConnectableAttributes } from '@services/behaviors'
+import type {
+  BaseProvisionable,
+  BaseServiceAttributes,
+  ServiceConnection,
+  ServiceTypeChoice,
+} from '@services/types'
+
+type ConnectableServiceConfig = BaseServiceAttributes &
+  ConnectableAttributes & {
+    engine: string
+    cluster?: boolean
+  }
+
+export const DATABASE_SERVICE_TYPES: ServiceTypeChoice[] = [
+  SERVICE_TYPE.MYSQL,
+  SERVICE_TYPE.MARIADB,
+  SERVICE_TYPE.POSTGRESQL,
+]
+
+export const CACHE_SERVICE_TYPES: ServiceTypeChoice[] = [SERVICE_TYPE.REDIS, SERVICE_TYPE.MEMCACHED]
+
+export const MAILER_SERVICE_TYPES: ServiceTypeChoice[] = [SERVICE_TYPE.MAILER]
+
+// The STARTTLS port of the SES SMTP endpoints
+const SMTP_PORT = 587
+
+/**
+ * @param {Record<string, string>} variables the variables to prefix
+ * @param {String} prefix the prefix to use
+ * @returns {Record<string, string>} the variables, prefixed
+ */
+const withPrefix = (variables: Record<string, string>, prefix: string): Record<string, string> =>
+  fromPairs(Object.entries(variables).map(([name, value]) => [`${prefix}_${name}`, value]))
+
+/**
+ * Returns the connection details for an RDS instance
+ *
+ * @param {ConnectableServiceConfig} config the database service's configuration
+ * @param {AwsDatabaseResources} provisions the database service's provisions
+ * @returns {ServiceConnection} the connection details
+ */
+const getDatabaseConnection = (
+  config: ConnectableServiceConfig,
+  { dbInstance }: AwsDatabaseResources,
+): ServiceConnection => {
+  const prefix = snakeCase(config.name).toUpperCase()
+  const secretArn = dbInstance.masterUserSecret.get(0).secretArn
+  const scheme: Record<RdsEngine, string> = {
+    mysql: 'mysql',
+    mariadb: 'mysql',
+    postgres: 'postgresql',
+  }
+
+  // The password is not part of the URL, it's only exposed through the secret
+  const variables = {
+    HOST: dbInstance.address,
+    PORT: String(config.port),
+    NAME: dbInstance.dbName,
+    USERNAME: dbInstance.username,
+  }
+
+  return {
+    environment: {
+      ...withPrefix(variables, 'DB'),
+      ...withPrefix(variables, prefix),
+      DATABASE_URL: `${scheme[config.engine as RdsEngine]}://${dbInstance.username}@${
+        dbInstance.address
+      }:${config.port}/${dbInstance.dbName}`,
+    },
+    secrets: {
+      DB_PASSWORD: `${secretArn}:password::`,
+      [`${prefix}_PASSWORD`]: `${secretArn}:password::`,
+    },
+    secretArns: [secretArn],
+  }
+}
+
+/**
+ * Returns the connection details for an Elasticache instance or cluster
+ *
+ * @param {ConnectableServiceConfig} config the cache service's configuration
+ * @param {AwsCacheResources} provisions the cache service's provisions
+ * @returns {ServiceConnection} the connection details
+ */
+const getCacheConnection = (
+  config: ConnectableServiceConfig,
+  { instance, cluster }: AwsCacheResources,
+): ServiceConnection => {
+  const prefix = snakeCase(config.name).toUpperCase()
+  const enginePrefix = config.engine.toUpperCase()
+
+  let host = ''
+  if (instance) {
+    host =
+      config.type === SERVICE_TYPE.MEMCACHED
+        ? instance.clusterAddress
+        : instance.cacheNodes.get(0).address
+  } else if (cluster) {
+    host = config.cluster ? cluster.configurationEndpointAddress : cluster.primaryEndpointAddress
+  }
+
+  const variables: Record<string, string> = { HOST: host, PORT: String(config.port) }
+
+  if (config.type === SERVICE_TYPE.REDIS) {
+    variables.URL = `redis://${host}:${config.port}`
+  }
+
+  return {
+    environment: {
+      ...withPrefix(variables, enginePrefix),
+      ...withPrefix(variables, prefix),
+    },
+    secrets: {},
+    secretArns: [],
+  }
+}
+
+/**
+ * Returns the SMTP settings for an SES mailer
+ *
+ * @param {AwsMailerAttributes} config the mailer service's configuration
+ * @param {AwsMailerResources} provisions the mailer service's provisions
+ * @returns {ServiceConnection} the connection details
+ */
+const getMailerConnection = (
+  config: AwsMailerAttributes,
+  { secret, configurationSet }: AwsMailerResources,
+): ServiceConnection => {
+  const prefix = snakeCase(config.name).toUpperCase()
+  const variables = {
+    HOST: getSmtpHost(config),
+    PORT: String(SMTP_PORT),
+    CONFIGURATION_SET: configurationSet.name,
+  }
+  const credentials = {
+    USERNAME: `${secret.arn}:username::`,
+    PASSWORD: `${secret.arn}:password::`,
+  }
+
+  return {
+    environment: {
+      ...withPrefix(variables, 'SMTP'),
+      ...withPrefix(variables, prefix),
+      MAIL_DOMAIN: config.domain,
+    },
+    secrets: {
+      ...withPrefix(credentials, 'SMTP'),
+      ...withPrefix(credentials, prefix),
+    },
+    secretArns: [secret.arn],
+  }
+}
+
+/**
+ * Returns the environment variables that an application needs to connect to a linked service.
+ *
+ * Every variable is provided prefixed by the linked service's name (eg. MY_DB_HOST),
+ * as well as with a generic name (eg. DB_HOST, DATABASE_URL, REDIS_URL or SMTP_HOST)
+ *
+ * @param {BaseProvisionable} linked the linked service's provisionable
+ * @returns {ServiceConnection} the connection details
+ */
+export const getServiceConnection = (linked: BaseProvisionable): ServiceConnection => {
+  const config = linked.config as ConnectableServiceConfig
+
+  if (DATABASE_SERVICE_TYPES.includes(config.type)) {
+    return getDatabaseConnection(config, linked.provisions as AwsDatabaseResources)
+  }
+
+  if (CACHE_SERVICE_TYPES.includes(config.type)) {
+    return getCacheConnection(config, linked.provisions as AwsCacheResources)
+  }
+
+  if (MAILER_SERVICE_TYPES.includes(config.type)) {
+    return getMailerConnection(
+      linked.config as AwsMailerAttributes,
+      linked.provisions as AwsMailerResources,
+    )
+  }
+
+  throw new Error(`The "${config.name}" service does not provide connection details`)
+}
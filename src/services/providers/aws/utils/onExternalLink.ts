@@ -1,46 +1,65 @@
 import { SecurityGroup } from '@cdktf/provider-aws/lib/security-group'
-import { hashString } from '@lib/hash'
-import { getIpAddressParts, getCidrBlocks } from '@lib/networking'
+import { convertIpToCidr } from '@lib/networking'
+import { attachSecurityGroup } from '@aws/utils/attachSecurityGroup'
 import type { PROVIDER } from '@src/constants'
 import type { Stack } from '@lib/stack'
 import type { ExternallyLinkableAttributes, ConnectableAttributes } from '@services/behaviors'
-import type { Provisionable, BaseServiceAttributes, Provisions, Service } from '@services/types'
+import type {
+  Provisionable,
+  BaseProvisionable,
+  BaseServiceAttributes,
+  Provisions,
+  Service,
+} from '@services/types'
+import type { AwsNetworkingAssociations, AwsProviderAssociations } from '@aws/types'
 
 type ExternallyLinkableServiceProvisionable = Provisionable<
   Service<
     BaseServiceAttributes &
       ExternallyLinkableAttributes &
-      ConnectableAttributes & { provider: typeof PROVIDER.AWS }
+      ConnectableAttributes & { provider: typeof PROVIDER.AWS },
+    AwsProviderAssociations & AwsNetworkingAssociations
   >,
   Provisions
 >
 
+/**
+ * Allows connections to a service from the IP addresses and CIDR blocks it's externally linked to
+ *
+ * @param {BaseProvisionable} _provider the provider the external links are associated with
+ * @param {Stack} stack the stack to deploy
+ * @param {BaseProvisionable} linked the service that holds the external links
+ * @returns {SecurityGroup} the security group attached to the service
+ */
 export const onExternalLink = (
-  provisionable: ExternallyLinkableServiceProvisionable,
+  _provider: BaseProvisionable,
   stack: Stack,
+  linked: BaseProvisionable,
 ) => {
   const {
-    config: { externalLinks = [], port },
-    requirements: { vpc },
-  } = provisionable
+    config: { externalLinks = [], port, name },
+    requirements: { vpc, providerInstance },
+  } = linked as ExternallyLinkableServiceProvisionable
 
-  const securityGroups = externalLinks.map((ipAddress) => {
-    const { ip, mask } = getIpAddressParts(ipAddress)
-    const sgName: string = `allow-external-ip-${hashString(ipAddress)}`
+  const sgName = `allow-external-links-to-${name}`
+  const securityGroup = new SecurityGroup(stack.context, sgName, {
+    vpcId: vpc.id,
+    name: sgName,
+    provider: providerInstance,
+    ingress: externalLinks.map((address) => {
+      const cidr = convertIpToCidr(address)
 
-    return new SecurityGroup(stack.context, sgName, {
-      vpcId: vpc.id,
-      name: sgName,
-      ingress: [
-        {
-          fromPort: port,
-          toPort: port,
-          description: `Allow connections from ${ipAddress}`,
-          cidrBlocks: getCidrBlocks(ip, mask),
-        },
-      ],
-    })
+      return {
+        fromPort: port,
+        toPort: port,
+        protocol: 'tcp',
+        description: `Allow connections from ${address}`,
+        ...(cidr.includes(':') ? { ipv6CidrBlocks: [cidr] } : { cidrBlocks: [cidr] }),
+      }
+    }),
   })
 
-  return securityGroups
+  attachSecurityGroup(linked, securityGroup)
+
+  return securityGroup
 }
@@ -1,24 +1,52 @@
 import { SecurityGroup } from '@cdktf/provider-aws/lib/security-group'
-import type { PROVIDER } from '@src/constants'
+import { SERVICE_TYPE } from '@src/constants'
+import { attachSecurityGroup } from '@aws/utils/attachSecurityGroup'
+import { CACHE_SERVICE_TYPES, DATABASE_SERVICE_TYPES } from '@aws/utils/getServiceConnection'
 import type { Stack } from '@lib/stack'
-import type { LinkableAttributes, ConnectableAttributes } from '@services/behaviors'
-import type {
-  Provisionable,
-  BaseServiceAttributes,
-  Provisions,
-  BaseProvisionable,
-  Service,
-} from '@services/types'
-
-type LinkableServiceProvisionable = Provisionable<
-  Service<
-    BaseServiceAttributes &
-      LinkableAttributes &
-      ConnectableAttributes & { provider: typeof PROVIDER.AWS }
-  >,
-  Provisions
->
+import type { BaseProvisionable, BaseServiceAttributes, ServiceTypeChoice } from '@services/types'
+import type { AwsApplicationResources } from '@aws/services/application'
+import type { AwsCacheProvisionable } from '@aws/services/cache'
+import type { AwsDatabaseProvisionable } from '@aws/services/database'
+import type { AwsInstanceResources } from '@aws/services/instance'
 
+type LinkableServiceProvisionable = AwsDatabaseProvisionable | AwsCacheProvisionable
+
+const CONNECTING_SERVICE_TYPES: ServiceTypeChoice[] = [SERVICE_TYPE.APP, SERVICE_TYPE.INSTANCE]
+
+/**
+ * @param {BaseServiceAttributes} source the linking service's configuration
+ * @param {BaseServiceAttributes} linked the linked service's configuration
+ * @returns {Boolean} whether the linked service is a database or cache the source connects to
+ */
+export const isConnectableService = (
+  source: BaseServiceAttributes,
+  linked: BaseServiceAttributes,
+) =>
+  source.provider === linked.provider &&
+  [...DATABASE_SERVICE_TYPES, ...CACHE_SERVICE_TYPES].includes(linked.type)
+
+/**
+ * @param {BaseServiceAttributes} source the database or cache service's configuration
+ * @param {BaseServiceAttributes} linked the linked service's configuration
+ * @returns {Boolean} whether the linked service is an application or instance that connects to the source
+ */
+export const isConnectingService = (
+  source: BaseServiceAttributes,
+  linked: BaseServiceAttributes & { links?: string[] },
+) =>
+  source.provider === linked.provider &&
+  CONNECTING_SERVICE_TYPES.includes(linked.type) &&
+  // When the linked service links back to the source, its own link sets up the connection
+  !(linked.links || []).includes(source.name)
+
+/**
+ * Allows a service to connect to the database or cache service it links to
+ *
+ * @param {LinkableServiceProvisionable} provisionable the service that is linked to
+ * @param {Stack} stack the stack to deploy
+ * @param {BaseProvisionable} linked the service that holds the link
+ * @returns {SecurityGroup} the security group attached to the service that is linked to
+ */
 export const onServiceLinked = (
   provisionable: LinkableServiceProvisionable,
   stack: Stack,
@@ -26,29 +54,50 @@ export const onServiceLinked = (
 ) => {
   const {
     config: { port, name: toName },
-    requirements: { vpc },
+    requirements: { vpc, providerInstance },
   } = provisionable
   const {
-    provisions = {},
     config: { name: fromName },
   } = linked
+  const { securityGroup } = linked.provisions as Partial<
+    Pick<AwsApplicationResources | AwsInstanceResources, 'securityGroup'>
+  >
   const sgName = `allow-incoming-from-${fromName}-to-${toName}`
-  const { ip } = provisions
 
-  if (!ip) {
-    throw new Error(`The IP resource on service ${fromName} is not provisioned yet`)
+  if (!securityGroup) {
+    throw new Error(`The security group on service ${fromName} is not provisioned yet`)
   }
 
-  return new SecurityGroup(stack.context, sgName, {
+  const linkSecurityGroup = new SecurityGroup(stack.context, sgName, {
     vpcId: vpc.id,
     name: sgName,
+    provider: providerInstance,
     ingress: [
       {
         fromPort: port,
         toPort: port,
+        protocol: 'tcp',
         description: `Allow connections from ${fromName} to ${toName}`,
-        cidrBlocks: [ip.expression()],
+        securityGroups: [securityGroup.id],
       },
     ],
   })
+
+  attachSecurityGroup(provisionable, linkSecurityGroup)
+
+  return linkSecurityGroup
 }
+
+/**
+ * Allows the application or instance that a database or cache service links to, to connect to it
+ *
+ * @param {BaseProvisionable} provisionable the application or instance that is linked to
+ * @param {Stack} stack the stack to deploy
+ * @param {BaseProvisionable} linked the database or cache service that holds the link
+ * @returns {SecurityGroup} the security group attached to the database or cache service
+ */
+export const onConnectingServiceLinked = (
+  provisionable: BaseProvisionable,
+  stack: Stack,
+  linked: BaseProvisionable,
+) => onServiceLinked(linked as LinkableServiceProvisionable, stack, provisionable)
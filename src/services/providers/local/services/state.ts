@@ -3,12 +3,10 @@ import { homedir } from 'node:os'
 import pipe from 'lodash/fp/pipe'
 import { LocalBackend } from 'cdktf'
 import { PROVIDER, SERVICE_TYPE } from '@src/constants'
-import { withAssociations, withHandler, withSchema } from '@services/behaviors'
+import { withHandler, withSchema } from '@services/behaviors'
 import { getBaseService } from '@src/services/utils'
-import { getLocalProviderAssociations } from '@local/utils/getLocalProviderAssociations'
 import type { Stack } from '@lib/stack'
 import type { BaseServiceAttributes, Service, Provisionable } from '@services/types'
-import type { LocalProviderAssociations } from '@local/types'
 
 export type LocalStateResources = { backend: LocalBackend }
 
@@ -19,7 +17,8 @@ export type LocalStateAttributes = BaseServiceAttributes & {
   directory?: string
 }
 
-export type LocalStateService = Service<LocalStateAttributes, LocalProviderAssociations>
+// The backend is configured by terraform itself, so the state doesn't need a provider instance
+export type LocalStateService = Service<LocalStateAttributes>
 
 export type LocalStateProvisionable = Provisionable<LocalStateService, LocalStateResources>
 
@@ -56,7 +55,6 @@ export const getStateService = (): LocalStateService =>
         directory: { type: 'string' },
       },
     }),
-    withAssociations(getLocalProviderAssociations()),
   )(getBaseService(PROVIDER.LOCAL, SERVICE_TYPE.STATE))
 
 export const LocalState = getStateService()
@@ -10,6 +10,10 @@ export { AwsSSL } from './aws/services/ssl'
 export { AwsObjectStore } from './aws/services/objectStore'
 export { AwsLoadBalancer } from './aws/services/loadbalancer'
 export { AwsApplication } from './aws/services/application'
+export { AwsCdn } from './aws/services/cdn'
+export { AwsMailer } from './aws/services/mailer'
+export { AwsVolume } from './aws/services/volume'
+export { AwsInstance } from './aws/services/instance'
 
 // Local services
 export { LocalProvider } from './local/services/provider'
@@ -1,7 +1,7 @@
 import { uniq } from 'lodash'
 import * as Services from '@services/providers/services'
 import type { Distribute, DistributiveRequireKeys } from '@lib/util'
-import type { ProviderChoice, ServiceTypeChoice, ExtractAttrs } from '@services/types'
+import type { BaseService, ExtractAttrs } from '@services/types'
 
 const availableServices = Object.values(Services)
 
@@ -17,27 +17,53 @@ export type ServiceConfiguration = DistributiveRequireKeys<
   'name' | 'type' | 'provider'
 >
 
+// Plugins register providers and service types other than the built-in ones
+type ServiceProvider = BaseService['provider']
+type ServiceType = BaseService['type']
+
 class Registry {
   /**
    * @var {BaseServices[]} items the service items in the registry
    * @readonly
    */
-  readonly #items: AvailableService[] = []
+  readonly #items: (AvailableService | BaseService)[] = []
 
   /**
-   * @var {Map<ProviderChoice, readonly string[]>} regions the regions available per provider
+   * @var {Map<ServiceProvider, readonly string[]>} regions the regions available per provider
    * @readonly
    */
-  readonly #regions: Map<ProviderChoice, Set<string>> = new Map()
+  readonly #regions: Map<ServiceProvider, Set<string>> = new Map()
 
   /**
    * @constructor
    */
   constructor() {
-    this.#items.push(...availableServices)
+    this.register(...availableServices)
+  }
+
+  /**
+   * Registers services to the registry, eg. the ones provided by plugins
+   *
+   * @param {BaseService[]} services the services to register
+   * @throws {Error} if another service is registered for the same provider and type
+   */
+  register(...services: BaseService[]) {
+    services.forEach((service) => {
+      const { provider, type, regions = [] } = service
+      const existing = this.#items.find((s) => s.provider === provider && s.type === type)
+
+      // Plugins that are loaded more than once register the same services again
+      if (existing === service) {
+        return
+      }
+
+      if (existing) {
+        throw new Error(`A ${type} service for provider ${provider} is already registered`)
+      }
+
+      this.#items.push(service)
 
-    // Extract the regions from each service and group them by provider
-    this.#items.forEach(({ provider, regions = [] }) => {
+      // Group the regions of the services by provider
       const updated = Array.from(this.#regions.get(provider) || []).concat(regions || [])
       this.#regions.set(provider, new Set(updated))
     })
@@ -46,21 +72,21 @@ class Registry {
   /**
    * Returns all services available in the registry
    *
-   * @returns {AvailableServices}
+   * @returns {(AvailableService | BaseService)[]}
    */
-  all(): AvailableServices {
+  all(): (AvailableService | BaseService)[] {
     return this.#items
   }
 
   /**
    * Finds and returns a service in the registry by provider and service type
    *
-   * @param {ProviderChoice} provider the provide to find the service by
-   * @param {ServiceTypeChoice} type the type to find the service by
-   * @returns {AvailableService} the service returned
+   * @param {ServiceProvider} provider the provide to find the service by
+   * @param {ServiceType} type the type to find the service by
+   * @returns {AvailableService | BaseService} the service returned
    * @throws {Error} if the service is not found
    */
-  get(provider: ProviderChoice, type: ServiceTypeChoice): AvailableService {
+  get(provider: ServiceProvider, type: ServiceType): AvailableService | BaseService {
     const service = this.#items.find((s) => s.provider === provider && s.type === type)
 
     if (!service) {
@@ -73,9 +99,9 @@ class Registry {
   /**
    * Returns the providers for a specific services (if provided), or all available otherwise
    *
-   * @returns {ProviderChoice[]} the providers available for the service (if any, otherwise all)
+   * @returns {ServiceProvider[]} the providers available for the service (if any, otherwise all)
    */
-  providers(serviceType?: ServiceTypeChoice): ProviderChoice[] {
+  providers(serviceType?: ServiceType): ServiceProvider[] {
     if (!serviceType) {
       return uniq(this.#items.map((s) => s.provider))
     }
@@ -86,10 +112,10 @@ class Registry {
   /**
    * Returns the regions a provider is available in
    *
-   * @param {ProviderChoice} provider the provider to get the regions for
+   * @param {ServiceProvider} provider the provider to get the regions for
    * @returns {string[]}
    */
-  regions(provider: ProviderChoice): string[] {
+  regions(provider: ServiceProvider): string[] {
     const regions = this.#regions.get(provider) || new Set()
     return Array.from(regions)
   }
@@ -97,9 +123,9 @@ class Registry {
   /**
    * Returns the types of services for a specific provider (if provided), or all available otherwise
    *
-   * @returns {ServiceTypeChoice[]} the service types available for the provider (if any, otherwise all)
+   * @returns {ServiceType[]} the service types available for the provider (if any, otherwise all)
    */
-  types(provider?: ProviderChoice): ServiceTypeChoice[] {
+  types(provider?: ServiceProvider): ServiceType[] {
     if (!provider) {
       return uniq(this.#items.map((s) => s.type))
     }
@@ -3,9 +3,9 @@ import type { Stack } from '@lib/stack'
 import type { Obj } from '@lib/util'
 import type { BaseServiceAttributes, ServiceTypeChoice } from './util'
 import type { BaseProvisionable } from './provisionable'
-import type { ProvisionResources } from './resources'
+import type { ProvisionResources, ServiceConnection } from './resources'
 
-export type AssociationReturnType = ProvisionResources | void
+export type AssociationReturnType = ProvisionResources | ServiceConnection | void
 
 export type AssociationLookup = (
   source: BaseServiceAttributes,
@@ -24,6 +24,10 @@ export type Association<Ret extends AssociationReturnType = AssociationReturnTyp
   with?: ServiceTypeChoice
   requirement?: boolean
   sideEffect?: boolean
+  // Collects the handler results for all the associated services, instead of the last one
+  multiple?: boolean
+  // The requirement only applies to some services (eg. the ones with a domain), so it can match none
+  optional?: boolean
 }
 
 export type AnyAssociationHandler = AssociationHandler<AssociationReturnType>
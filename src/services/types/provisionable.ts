@@ -9,7 +9,9 @@ import type { AnyAssociationHandler, Association, ServiceAssociations } from './
 type ExtractServiceRequirements<Associations extends ServiceAssociations> = {
   [K in keyof Associations]: Associations[K] extends infer A extends Association<any>
     ? A['requirement'] extends true
-      ? ReturnType<A['handler']>
+      ? A['multiple'] extends true
+        ? ReturnType<A['handler']>[]
+        : ReturnType<A['handler']>
       : never
     : never
 }
@@ -20,6 +22,7 @@ export type BaseProvisionable<Attrs extends BaseServiceAttributes = BaseServiceA
   config: Attrs
   provisions: Provisions
   resourceId: string
+  legacyResourceId: string
   registered: boolean
   sideEffects: Provisions
   requirements: Dictionary<ProvisionResources>
@@ -48,4 +51,5 @@ export type AssociatedProvisionable = {
   name: string
   target: BaseProvisionable
   handler: AnyAssociationHandler
+  multiple?: boolean
 }
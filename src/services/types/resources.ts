@@ -18,3 +18,12 @@ export type Provisions = Record<string, ProvisionResources> & {
   // A resource reference such as a resource's ID to link with services within the same provider
   resourceRef?: TerraformLocal
 }
+
+export type ServiceConnection = {
+  // Environment variables with the connection details of the service
+  environment: Record<string, string>
+  // Environment variables with sensitive values, referencing the secret they're stored in
+  secrets: Record<string, string>
+  // The ARNs of the secrets referenced above
+  secretArns: string[]
+}
@@ -19,8 +19,9 @@ export type Service<
   Associations extends ServiceAssociations = Obj,
   Envs extends string[] = [],
 > = {
-  provider: ProviderChoice
-  type: ServiceTypeChoice
+  // Plugins provide services for providers and types other than the built-in ones
+  provider: ProviderChoice | string
+  type: ServiceTypeChoice | string
   regions?: readonly string[]
   schemaId: string
   schema: JsonSchema<Setup>
@@ -17,6 +17,7 @@ export type BaseServiceAttributes = {
   provider: ProviderChoice
   type: ServiceTypeChoice
   region?: string
+  renamedFrom?: string
 }
 
 export type Credentials = {
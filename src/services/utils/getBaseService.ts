@@ -1,23 +1,18 @@
 import { getServiceNameSchema } from '@src/validation/utils/getServiceNameSchema'
 import { kebabCase } from 'lodash'
 import type { JsonSchema } from '@lib/schema'
-import type {
-  ProviderChoice,
-  ServiceTypeChoice,
-  Service,
-  BaseServiceAttributes,
-} from '@services/types'
+import type { BaseService, Service, BaseServiceAttributes } from '@services/types'
 
 /**
  * Returns a base core service (one that cannot be part of the services list)
  *
- * @param provider {ProviderChoice} the provider for the core service
- * @param type {ServiceTypeChoice} the service type for the core service
+ * @param provider {String} the provider for the core service, built-in or provided by a plugin
+ * @param type {String} the service type for the core service, built-in or provided by a plugin
  * @returns {Service<Obj>} the core service
  */
 export const getBaseService = (
-  provider: ProviderChoice,
-  type: ServiceTypeChoice,
+  provider: BaseService['provider'],
+  type: BaseService['type'],
 ): Service<BaseServiceAttributes & { provider: typeof provider; type: typeof type }> => {
   const schemaId = kebabCase(`services_${provider}_${type}`)
   const schema: JsonSchema<BaseServiceAttributes> = {
@@ -30,6 +25,16 @@ export const getBaseService = (
       type: { const: type },
       region: { type: 'string' },
       name: getServiceNameSchema(),
+      renamedFrom: {
+        ...getServiceNameSchema(),
+        description:
+          'The name the service was previously deployed with, so that its resources are moved instead of replaced',
+        errorMessage: {
+          minLength: 'The name the service was renamed from should be two characters or more',
+          pattern:
+            'The name the service was renamed from should only contain characters, numbers, dashes and underscores',
+        },
+      },
     },
   }
 
@@ -0,0 +1,11 @@
+import type { BaseServiceAttributes } from '@services/types'
+
+/**
+ * Returns the name to build the physical names of a service's resources with, eg. a database's
+ * identifier. Renamed services keep their previous name, since changing it replaces the resources
+ *
+ * @param {BaseServiceAttributes} config the service's configuration
+ * @returns {String} the name to use for the physical resources
+ */
+export const getPhysicalName = ({ name, renamedFrom }: BaseServiceAttributes): string =>
+  renamedFrom || name
@@ -1,2 +1,3 @@
 export * from './getBaseService'
 export * from './getProfile'
+export * from './getPhysicalName'
@@ -27,6 +27,12 @@ describe('getAjv', () => {
     expect((serviceProfile as FuncKeywordDefinition).compile).toBeInstanceOf(Function)
   })
 
+  it('returns an Ajv instance with uniqueNames keyword in place', () => {
+    const uniqueNames = ajv.getKeyword('uniqueNames')
+    expect(uniqueNames).not.toBe(false)
+    expect((uniqueNames as FuncKeywordDefinition).compile).toBeInstanceOf(Function)
+  })
+
   it('returns an Ajv instance with serviceProfileOverrides keyword in place', () => {
     const overrides = ajv.getKeyword('serviceProfileOverrides')
     expect(overrides).not.toBe(false)
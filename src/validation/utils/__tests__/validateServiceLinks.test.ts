@@ -2,6 +2,9 @@ import { merge } from 'lodash'
 import { ValidationError } from '@lib/errors'
 import { getServicesSchema, getValidData } from '@src/validation'
 import { getAwsDbConfigMock } from '@tests/mocks/aws'
+import { getProjectMock } from '@tests/mocks/project'
+import { getProjectServices } from '@src/project/utils/getProjectServices'
+import { ENVIRONMENT } from '@src/project/constants'
 import type { ServiceAttributes } from '@services/registry'
 import type { AwsMariaDBAttributes, AwsPostgreSQLAttributes } from '@aws/services/database'
 
@@ -24,4 +27,17 @@ describe('serviceLinks', () => {
     const [serviceWithLinks] = getValidData(withLinks, schema)
     expect(serviceWithLinks).toMatchObject({ links: expect.arrayContaining(links) })
   })
+
+  it('validates the service links within the environment of a project', () => {
+    const first = { ...db1, database: 'first_db' }
+    const second = { ...db2, database: 'second_db' }
+
+    const project = getProjectMock([first, { ...second, links: [first.name] }])
+    expect(() => getProjectServices(project, ENVIRONMENT.PRODUCTION)).not.toThrow()
+
+    const invalid = getProjectMock([first, { ...second, links: ['some-invalid-link'] }])
+    expect(() => getProjectServices(invalid, ENVIRONMENT.PRODUCTION)).toThrowValidationError(
+      'Invalid links provided for the service',
+    )
+  })
 })
@@ -9,6 +9,8 @@ import { validateServiceLinks } from './validateServiceLinks'
 import { validateServiceProfile } from './validateServiceProfile'
 import { validateServiceProfileOverrides } from './validateServiceProfileOverrides'
 import { validateUniqueAppDomains } from './validateUniqueAppDomains'
+import { validateUniqueAppTestPorts } from './validateUniqueAppTestPorts'
+import { validateUniqueNames } from './validateUniqueNames'
 
 export const getAjv = (opts: AjvOptions = {}): Ajv => {
   const ajv = new Ajv(defaults({ ...opts }, AJV_DEFAULTS))
@@ -37,6 +39,21 @@ export const getAjv = (opts: AjvOptions = {}): Ajv => {
     compile: () => validateUniqueAppDomains,
   })
 
+  ajv.addKeyword({
+    keyword: 'uniqueAppTestPorts',
+    async: false,
+    errors: true,
+    error: { message: 'The same deployment test port is configured to more than one application' },
+    compile: () => validateUniqueAppTestPorts,
+  })
+
+  ajv.addKeyword({
+    keyword: 'uniqueNames',
+    type: 'array',
+    error: { message: 'The names should be unique' },
+    compile: () => validateUniqueNames,
+  })
+
   ajv.addKeyword({
     keyword: 'serviceProfile',
     type: 'string',
@@ -4,7 +4,7 @@ import type { ErrorObject as AjvErrorObject } from 'ajv'
 
 export const parseErrors = (errors: AjvErrorObject[], data: any): ValidationErrorDescriptor[] => {
   const errs = errors
-    .filter(({ keyword }) => !['if', 'then'].includes(keyword))
+    .filter(({ keyword }) => !['if', 'then', 'propertyNames'].includes(keyword))
     .map(({ instancePath, message }) => {
       const pathParts = instancePath.split('/').filter((val) => !isEmpty(val))
       const path = pathParts.join('.')
@@ -1,4 +1,4 @@
-import { isEmpty, difference } from 'lodash'
+import { isEmpty, difference, get } from 'lodash'
 import type { ServiceConfiguration } from '@services/registry'
 import type { DataValidationCxt } from 'ajv/dist/types'
 
@@ -22,10 +22,16 @@ export const validateServiceLinks = (links: any, dataCxt?: DataValidationCxt): b
     return true
   }
 
-  // Get the project's service names
-  const serviceNames = path?.match(/[0-9]+\/links/gi)
-    ? (dataCxt?.rootData || []).map((cfg: ServiceConfiguration) => cfg.name)
-    : []
+  // Get the project's service names, either from the list of services,
+  // or from the environment the service belongs to, when validating the project's configuration
+  const [, environment] = path.match(/^\/environments\/([^/]+)\/[^/]+\/links$/) || []
+  let serviceNames: string[] = []
+
+  if (environment) {
+    serviceNames = Object.keys(get(dataCxt?.rootData, ['environments', environment]) || {})
+  } else if (path.match(/[0-9]+\/links/gi)) {
+    serviceNames = (dataCxt?.rootData || []).map((cfg: ServiceConfiguration) => cfg.name)
+  }
 
   // Detect any service names that are not available within the schema
   const irrelevantServices = difference(links, serviceNames)
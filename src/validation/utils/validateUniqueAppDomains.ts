@@ -3,7 +3,8 @@ import { isObject, isString } from 'lodash'
 import type { BaseServiceAttributes } from '@src/services/types'
 
 /**
- * Validates a set of properties to be unique for a part of the schema
+ * Validates that no two applications serve the same domain. Applications that share a domain
+ * through the load balancer are told apart by the path they are routed to
  *
  * @param {Any|Object} props the values to validate
  * @param {DataValidationCxt} dataCxt the data validation context
@@ -11,7 +12,7 @@ import type { BaseServiceAttributes } from '@src/services/types'
  */
 export const validateUniqueAppDomains = (serviceConfigs: any): boolean => {
   let hasDuplicate = false
-  const domains: Set<string> = new Set()
+  const routes: Set<string> = new Set()
   const configs = Object.values(serviceConfigs)
 
   if (!isObject(serviceConfigs) || !configs.every((cfg: BaseServiceAttributes) => !!cfg.type)) {
@@ -29,11 +30,13 @@ export const validateUniqueAppDomains = (serviceConfigs: any): boolean => {
       return
     }
 
-    if (domains.has(config.domain)) {
+    const route = `${config.domain}${'path' in config && isString(config.path) ? config.path : ''}`
+
+    if (routes.has(route)) {
       hasDuplicate = true
     }
 
-    domains.add(config.domain)
+    routes.add(route)
   })
 
   return !hasDuplicate
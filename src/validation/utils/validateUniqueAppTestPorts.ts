@@ -0,0 +1,39 @@
+import { SERVICE_TYPE } from '@src/constants'
+import { get, isObject } from 'lodash'
+import type { BaseServiceAttributes } from '@src/services/types'
+
+/**
+ * Validates that no two applications test their blue/green deployments on the same port.
+ * Applications in the same provider and region share the load balancer, which can only
+ * have one listener per port
+ *
+ * @param {Any|Object} serviceConfigs the values to validate
+ * @returns {Boolean} whether the test ports are unique
+ */
+export const validateUniqueAppTestPorts = (serviceConfigs: any): boolean => {
+  let hasDuplicate = false
+  const listeners: Set<string> = new Set()
+  const configs = Object.values(serviceConfigs)
+
+  if (!isObject(serviceConfigs) || !configs.every((cfg: BaseServiceAttributes) => !!cfg.type)) {
+    // eslint-disable-next-line no-console
+    console.warn('The uniqueAppTestPorts should be attached to environment configurations')
+    return true
+  }
+
+  configs.forEach((config: BaseServiceAttributes) => {
+    if (config.type !== SERVICE_TYPE.APP || get(config, 'deployment.strategy') !== 'blueGreen') {
+      return
+    }
+
+    const listener = `${config.provider}:${config.region}:${get(config, 'deployment.testPort')}`
+
+    if (listeners.has(listener)) {
+      hasDuplicate = true
+    }
+
+    listeners.add(listener)
+  })
+
+  return !hasDuplicate
+}
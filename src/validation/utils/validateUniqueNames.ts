@@ -0,0 +1,16 @@
+import { get, isArray, isString, uniq } from 'lodash'
+
+/**
+ * Validates that the items of a list have unique names, eg. the schedules of an application
+ *
+ * @param {Any|Array} items the values to validate
+ * @returns {Boolean} whether the names are unique
+ */
+export const validateUniqueNames = (items: any): boolean => {
+  if (!isArray(items)) {
+    return true
+  }
+
+  const names = items.map((item) => get(item, 'name')).filter(isString)
+  return uniq(names).length === names.length
+}
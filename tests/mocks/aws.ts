@@ -74,6 +74,23 @@ export const getAwsAppConfigMock = (): AwsApplicationAttributes => ({
   image: `${faker.lorem.word()}/${faker.lorem.word()}:latest`,
   nodes: 1,
   www: true,
+  worker: false,
+  healthCheck: {
+    path: '/',
+    matcher: '200',
+    interval: 30,
+    timeout: 10,
+    healthyThreshold: 5,
+    unhealthyThreshold: 3,
+  },
+  deployment: {
+    strategy: 'rolling',
+    minimumHealthyPercent: 100,
+    maximumPercent: 200,
+    circuitBreaker: true,
+    terminationWait: 5,
+  },
+  links: [],
   domain: faker.internet.domainName(),
   monitoring: {
     emails: [faker.internet.email()],
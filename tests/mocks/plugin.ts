@@ -0,0 +1,28 @@
+import { pipe } from 'lodash/fp'
+import { TerraformOutput } from 'cdktf'
+import { getBaseService } from '@src/services/utils'
+import { withHandler, withRegions, withSchema } from '@src/services/behaviors'
+import type { StackmatePlugin } from '@src/project/utils/loadPlugins'
+
+// Plugins provide providers and service types other than the built-in ones
+export const PLUGIN_PROVIDER = 'acme'
+export const PLUGIN_SERVICE_TYPE = 'queue'
+
+const queue = pipe(
+  withRegions(['acme-west-1']),
+  withHandler((provisionable, stack) => ({
+    output: new TerraformOutput(stack.context, `${provisionable.resourceId}_name`, {
+      value: provisionable.config.name,
+    }),
+  })),
+  withSchema({
+    type: 'object',
+    properties: {
+      retention: { type: 'number', minimum: 1, default: 7 },
+    },
+  }),
+)(getBaseService(PLUGIN_PROVIDER, PLUGIN_SERVICE_TYPE))
+
+const plugin: StackmatePlugin = { services: [queue] }
+
+export default plugin